@@ -2,6 +2,9 @@
 const nextConfig = {
     images: {
       unoptimized: true
+    },
+    env: {
+      NEXT_PUBLIC_APP_VERSION: require('./package.json').version
     }
   }
   
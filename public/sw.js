@@ -0,0 +1,116 @@
+// Keeps the app usable with no network after the first visit. On install
+// it caches everything in /offline-manifest.json (see
+// src/server/offlineManifest.ts); the page also hands over whatever else it
+// loaded (see src/services/offlineCache.ts), such as weights from a CDN.
+//
+// The page registers this worker as /sw.js?v=<manifest version>, so every
+// build that changes a file installs a fresh worker with its own cache.
+const VERSION = new URL(self.location.href).searchParams.get('v') || 'dev';
+const CACHE = `selfie-analyzer-${VERSION}`;
+const MANIFEST = '/offline-manifest.json';
+const SHELL = '/';
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE)
+      .then(async cache => {
+        const response = await fetch(MANIFEST, { cache: 'no-cache' });
+        if (!response.ok) throw new Error(`${MANIFEST} responded ${response.status}`);
+        const { urls } = await response.clone().json();
+        await cache.put(MANIFEST, response);
+        await cache.addAll(urls);
+      })
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Hashed build output and model files never change under the same URL
+const isImmutable = url =>
+  url.origin === self.location.origin &&
+  (url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/models/'));
+
+// URLs that can change without a new build come from the network when
+// it's there, refreshing a cached copy, and from the cache otherwise
+const networkFirst = request =>
+  fetch(request)
+    .then(async response => {
+      if (request.method === 'GET' && response.ok) {
+        const cache = await caches.open(CACHE);
+        if (await cache.match(request)) await cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch(async () => (await caches.match(request, { ignoreMethod: true })) ?? Response.error());
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' && request.method !== 'HEAD') return;
+  const url = new URL(request.url);
+  if (url.pathname.startsWith('/api/')) return;
+
+  // Any page works offline as the app shell
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          if (response.ok && url.pathname === SHELL) {
+            const copy = response.clone();
+            caches.open(CACHE).then(cache => cache.put(SHELL, copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match(SHELL))
+    );
+    return;
+  }
+
+  if (!isImmutable(url)) {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request, { ignoreMethod: true }).then(cached => {
+      if (cached) return cached;
+      return fetch(request).then(response => {
+        if (request.method === 'GET' && response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE).then(cache => cache.put(request, copy));
+        }
+        return response;
+      });
+    })
+  );
+});
+
+// { type: 'precache', urls } from the page. Replies on the message port
+// with the URLs that could not be cached.
+self.addEventListener('message', event => {
+  if (event.data?.type !== 'precache') return;
+  const port = event.ports[0];
+
+  event.waitUntil(
+    caches.open(CACHE).then(async cache => {
+      const failed = [];
+      await Promise.all(event.data.urls.map(async url => {
+        if (await cache.match(url)) return;
+        try {
+          const response = await fetch(url);
+          if (!response.ok) throw new Error(`${response.status}`);
+          await cache.put(url, response);
+        } catch {
+          failed.push(url);
+        }
+      }));
+      port?.postMessage({ failed });
+    })
+  );
+});
@@ -0,0 +1,292 @@
+// Analyzes every JPEG/PNG under a directory and writes one row per image.
+//
+//   npm run analyze-batch -- <dir> [--out results.jsonl] [--format jsonl|csv]
+//                               [--concurrency 2] [--resume]
+//
+// Rows are appended as each image finishes, so an interrupted run can be
+// continued with --resume, which keeps the complete rows of the output
+// file that succeeded and skips their images. Failed images are tried
+// again, and a row cut off mid-write is dropped along with their old rows.
+//
+// --concurrency only overlaps reading and decoding images with inference:
+// every image goes through the one model service on tfjs's cpu backend,
+// which runs a single inference at a time.
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { FaceAnalysisError } from '@/services/errors';
+import { primaryFaceIndex } from '@/services/geometry';
+import { decodeImage } from '@/server/decodeImage';
+import { getServerAnalysisService } from '@/server/analysisService';
+import type { FaceAnalysisService } from '@/services/faceAnalysis';
+
+const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png']);
+
+interface BatchRecord {
+  file: string;
+  status: 'ok' | 'error';
+  facesFound: number | '';
+  faceShape: string;
+  skinTone: string;
+  fitzpatrick: string;
+  undertone: string;
+  ita: number | '';
+  faceWidth: number | '';
+  faceHeight: number | '';
+  foreheadWidth: number | '';
+  jawWidth: number | '';
+  chinLength: number | '';
+  confidence: number | '';
+  quality: string;
+  lightingScore: number | '';
+  colorCast: string;
+  errorCode: string;
+  error: string;
+}
+
+const COLUMNS: (keyof BatchRecord)[] = [
+  'file', 'status', 'facesFound', 'faceShape', 'skinTone', 'fitzpatrick', 'undertone', 'ita',
+  'faceWidth', 'faceHeight', 'foreheadWidth', 'jawWidth', 'chinLength', 'confidence',
+  'quality', 'lightingScore', 'colorCast', 'errorCode', 'error'
+];
+
+const emptyRecord = (file: string): BatchRecord => ({
+  file,
+  status: 'error',
+  facesFound: '',
+  faceShape: '',
+  skinTone: '',
+  fitzpatrick: '',
+  undertone: '',
+  ita: '',
+  faceWidth: '',
+  faceHeight: '',
+  foreheadWidth: '',
+  jawWidth: '',
+  chinLength: '',
+  confidence: '',
+  quality: '',
+  lightingScore: '',
+  colorCast: '',
+  errorCode: '',
+  error: ''
+});
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function csvCell(value: string | number) {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function parseCsvLine(line: string) {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+function formatRecord(record: BatchRecord, format: 'csv' | 'jsonl') {
+  return format === 'csv'
+    ? COLUMNS.map(column => csvCell(record[column])).join(',')
+    : JSON.stringify(record);
+}
+
+async function findImages(directory: string): Promise<string[]> {
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  const nested = await Promise.all(entries.map(async entry => {
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) return findImages(fullPath);
+    return IMAGE_EXTENSIONS.has(path.extname(entry.name).toLowerCase()) ? [fullPath] : [];
+  }));
+  return nested.flat().sort();
+}
+
+// Reads back the rows of an earlier, possibly interrupted, run. Only rows
+// written out completely count: anything after the last newline was cut
+// off mid-write, and a row without every column or a known status is
+// dropped too, so its image gets redone.
+async function readExistingRecords(file: string, format: 'csv' | 'jsonl'): Promise<BatchRecord[]> {
+  if (!existsSync(file)) return [];
+  const lines = (await fs.readFile(file, 'utf8')).split('\n').map(line => line.replace(/\r$/, ''));
+  lines.pop();
+
+  const complete = (record: Partial<Record<keyof BatchRecord, unknown>>) =>
+    COLUMNS.every(column => record[column] !== undefined) &&
+    (record.status === 'ok' || record.status === 'error');
+
+  if (format === 'jsonl') {
+    return lines.flatMap(line => {
+      try {
+        const record = JSON.parse(line);
+        return record && typeof record === 'object' && complete(record) ? [record as BatchRecord] : [];
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  const [headerLine, ...rows] = lines;
+  const header = headerLine === undefined ? [] : parseCsvLine(headerLine);
+  return rows.flatMap(line => {
+    const cells = parseCsvLine(line);
+    if (cells.length !== header.length) return [];
+    const record = Object.fromEntries(COLUMNS.map(column => {
+      const index = header.indexOf(column);
+      return [column, index === -1 ? undefined : cells[index]];
+    }));
+    return complete(record) ? [record as unknown as BatchRecord] : [];
+  });
+}
+
+async function analyzeImage(service: FaceAnalysisService, file: string, root: string): Promise<BatchRecord> {
+  const record = emptyRecord(path.relative(root, file));
+  try {
+    const pixels = decodeImage(await fs.readFile(file));
+    const faces = await service.analyzeFaces(pixels);
+    const result = faces[primaryFaceIndex(faces.map(face => face.box), pixels.width, pixels.height)];
+    const { measurements, skinToneDetails } = result;
+
+    return {
+      ...record,
+      status: 'ok',
+      facesFound: faces.length,
+      faceShape: result.faceShape,
+      skinTone: result.skinTone,
+      fitzpatrick: skinToneDetails.fitzpatrick,
+      undertone: skinToneDetails.undertone,
+      ita: round(skinToneDetails.ita),
+      faceWidth: round(measurements.faceWidth),
+      faceHeight: round(measurements.faceHeight),
+      foreheadWidth: round(measurements.foreheadWidth),
+      jawWidth: round(measurements.jawWidth),
+      chinLength: round(measurements.chinLength),
+      confidence: round(result.confidence),
+      quality: result.quality.status,
+      lightingScore: result.lighting?.score ?? '',
+      colorCast: result.lighting?.cast ?? ''
+    };
+  } catch (error) {
+    return {
+      ...record,
+      errorCode: error instanceof FaceAnalysisError ? error.code : 'INTERNAL_ERROR',
+      error: (error as Error).message
+    };
+  }
+}
+
+function printDistribution(title: string, values: string[]) {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  console.log(`\n${title}:`);
+  Array.from(counts)
+    .sort((a, b) => b[1] - a[1])
+    .forEach(([value, count]) => {
+      const share = ((count / values.length) * 100).toFixed(1);
+      console.log(`  ${value.padEnd(24)} ${String(count).padStart(6)}  ${share.padStart(5)}%`);
+    });
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', default: 'analysis-results.jsonl' },
+      format: { type: 'string' },
+      concurrency: { type: 'string', default: '2' },
+      resume: { type: 'boolean', default: false }
+    }
+  });
+
+  const [directory] = positionals;
+  if (!directory) {
+    console.error([
+      'Usage: npm run analyze-batch -- <dir> [--out file] [--format jsonl|csv] [--concurrency n] [--resume]',
+      '  --concurrency n  images read and decoded at once; inference still runs one image at a time'
+    ].join('\n'));
+    process.exit(1);
+  }
+
+  const outFile = values.out!;
+  const format = (values.format ?? (path.extname(outFile).toLowerCase() === '.csv' ? 'csv' : 'jsonl')) as 'csv' | 'jsonl';
+  if (format !== 'csv' && format !== 'jsonl') {
+    console.error(`Unknown format "${format}", use jsonl or csv`);
+    process.exit(1);
+  }
+  const concurrency = Math.max(1, Number.parseInt(values.concurrency!, 10) || 1);
+
+  const root = path.resolve(directory);
+  const images = await findImages(root);
+  // Failed images are retried, so only the rows that succeeded are kept
+  const previous = values.resume
+    ? (await readExistingRecords(outFile, format)).filter(record => record.status === 'ok')
+    : [];
+  const done = new Set(previous.map(record => record.file));
+  const pending = images.filter(file => !done.has(path.relative(root, file)));
+
+  // Written afresh with the rows kept, so new rows never land on the end
+  // of one cut off mid-write
+  const kept = [...(format === 'csv' ? [COLUMNS.join(',')] : []), ...previous.map(record => formatRecord(record, format))];
+  await fs.writeFile(outFile, kept.map(line => `${line}\n`).join(''));
+  console.log(`Found ${images.length} images, ${images.length - pending.length} already done, analyzing ${pending.length}`);
+
+  console.log('Loading models...');
+  const service = await getServerAnalysisService();
+
+  const records: BatchRecord[] = [...previous];
+  let next = 0;
+  let finished = 0;
+  // Appends go through one chain so rows never interleave
+  let writes = Promise.resolve();
+
+  const worker = async () => {
+    while (next < pending.length) {
+      const file = pending[next++];
+      const record = await analyzeImage(service, file, root);
+      records.push(record);
+      writes = writes.then(() => fs.appendFile(outFile, `${formatRecord(record, format)}\n`));
+      await writes;
+      finished++;
+      const outcome = record.status === 'ok' ? `${record.faceShape}, ${record.skinTone}` : `error: ${record.error}`;
+      console.log(`[${finished}/${pending.length}] ${record.file} - ${outcome}`);
+    }
+  };
+  await Promise.all(Array.from({ length: concurrency }, worker));
+
+  const succeeded = records.filter(record => record.status === 'ok');
+  const failed = records.filter(record => record.status === 'error');
+  console.log(`\nAnalyzed ${records.length} images: ${succeeded.length} ok, ${failed.length} failed. Results in ${outFile}`);
+  if (succeeded.length > 0) {
+    printDistribution('Face shapes', succeeded.map(record => record.faceShape));
+    printDistribution('Skin tones', succeeded.map(record => record.skinTone));
+  }
+  if (failed.length > 0) {
+    printDistribution('Errors', failed.map(record => record.errorCode || 'UNKNOWN'));
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,237 @@
+// Measures how well the face shape and skin tone classifiers agree with a
+// labeled dataset, and optionally searches for better thresholds.
+//
+//   npm run evaluate -- <labels.jsonl> [--thresholds file.json]
+//                       [--calibrate] [--out src/data/classifierThresholds.json]
+//
+// labels.jsonl has one JSON object per line:
+//   { "image": "photos/001.jpg", "faceShape": "Oval", "fitzpatrick": "III", "undertone": "Warm" }
+// `image` is relative to the labels file; every label field is optional.
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { decodeImage } from '@/server/decodeImage';
+import { getServerAnalysisService } from '@/server/analysisService';
+import { classifyFaceShape } from '@/services/faceShape';
+import { FaceProportions, FaceShape, MEASUREMENT_RATIOS } from '@/services/proportions';
+import { Lab, classifySkinTone } from '@/services/skinTone';
+import {
+  ClassifierThresholds,
+  DEFAULT_THRESHOLDS,
+  FaceShapeThresholds,
+  SkinToneThresholds,
+  parseThresholds
+} from '@/services/thresholds';
+
+type LabelName = 'faceShape' | 'fitzpatrick' | 'undertone';
+const LABELS: LabelName[] = ['faceShape', 'fitzpatrick', 'undertone'];
+
+interface LabeledImage extends Partial<Record<LabelName, string>> {
+  image: string;
+}
+
+// What the models measured for one image. Classifying from these is cheap,
+// so calibration can try thousands of thresholds without rerunning models.
+interface Sample {
+  labels: LabeledImage;
+  measurements: FaceProportions;
+  lab: Lab;
+}
+
+function predict(sample: Sample, thresholds: ClassifierThresholds): Record<LabelName, string> {
+  const tone = classifySkinTone(sample.lab, thresholds.skinTone);
+  return {
+    faceShape: classifyFaceShape(sample.measurements, thresholds.faceShape),
+    fitzpatrick: tone.fitzpatrick,
+    undertone: tone.undertone
+  };
+}
+
+function accuracy(samples: Sample[], thresholds: ClassifierThresholds, label: LabelName) {
+  const labeled = samples.filter(sample => sample.labels[label]);
+  if (labeled.length === 0) return 0;
+  const correct = labeled.filter(sample => predict(sample, thresholds)[label] === sample.labels[label]).length;
+  return correct / labeled.length;
+}
+
+function report(samples: Sample[], thresholds: ClassifierThresholds, label: LabelName) {
+  const pairs = samples
+    .filter(sample => sample.labels[label])
+    .map(sample => ({ expected: sample.labels[label]!, predicted: predict(sample, thresholds)[label] }));
+  if (pairs.length === 0) return;
+
+  const classes = Array.from(new Set(pairs.flatMap(pair => [pair.expected, pair.predicted]))).sort();
+  const count = (expected: string | null, predicted: string | null) => pairs.filter(pair =>
+    (expected === null || pair.expected === expected) && (predicted === null || pair.predicted === predicted)
+  ).length;
+  const width = Math.max(10, ...classes.map(name => name.length + 2));
+  const pct = (value: number) => Number.isNaN(value) ? '   -  ' : `${(value * 100).toFixed(1).padStart(5)}%`;
+
+  console.log(`\n${label}: accuracy ${pct(pairs.filter(pair => pair.expected === pair.predicted).length / pairs.length)} over ${pairs.length} images`);
+  console.log('Confusion matrix (rows expected, columns predicted):');
+  console.log(''.padEnd(width) + classes.map(name => name.padStart(width)).join(''));
+  classes.forEach(expected => {
+    console.log(expected.padEnd(width) + classes.map(predicted => String(count(expected, predicted)).padStart(width)).join(''));
+  });
+
+  console.log(`${'class'.padEnd(width)}${'precision'.padStart(width)}${'recall'.padStart(width)}${'support'.padStart(width)}`);
+  classes.forEach(name => {
+    const truePositives = count(name, name);
+    const precision = truePositives / count(null, name);
+    const recall = truePositives / count(name, null);
+    console.log(`${name.padEnd(width)}${pct(precision).padStart(width)}${pct(recall).padStart(width)}${String(count(name, null)).padStart(width)}`);
+  });
+}
+
+// Tries each threshold in turn across a range around its current value and
+// keeps whatever improves accuracy, repeating until a pass changes nothing.
+function coordinateSearch<T extends object>(
+  start: T,
+  keys: { get: (t: T) => number; set: (t: T, value: number) => T; valid: (t: T) => boolean }[],
+  score: (t: T) => number
+): T {
+  let best = start;
+  let bestScore = score(best);
+
+  for (let pass = 0; pass < 5; pass++) {
+    let improved = false;
+    keys.forEach(key => {
+      const current = key.get(best);
+      const span = Math.max(Math.abs(current) * 0.5, 5e-2);
+      for (let step = -20; step <= 20; step++) {
+        const value = Math.round((current + (span * step) / 20) * 1000) / 1000;
+        const candidate = key.set(best, value);
+        if (!key.valid(candidate)) continue;
+        const candidateScore = score(candidate);
+        if (candidateScore > bestScore) {
+          best = candidate;
+          bestScore = candidateScore;
+          improved = true;
+        }
+      }
+    });
+    if (!improved) break;
+  }
+  return best;
+}
+
+function calibrate(samples: Sample[], start: ClassifierThresholds): ClassifierThresholds {
+  const withFaceShape = (thresholds: FaceShapeThresholds) => ({ ...start, faceShape: thresholds });
+  const shapes = Object.keys(start.faceShape.prototypes) as FaceShape[];
+  const prototypeKeys = shapes.flatMap(shape => MEASUREMENT_RATIOS.map(ratio => ({
+    get: (t: FaceShapeThresholds) => t.prototypes[shape]![ratio],
+    set: (t: FaceShapeThresholds, value: number) => ({
+      ...t,
+      prototypes: { ...t.prototypes, [shape]: { ...t.prototypes[shape]!, [ratio]: value } }
+    }),
+    valid: (t: FaceShapeThresholds) => t.prototypes[shape]![ratio] > 0
+  })));
+  const spreadKeys = MEASUREMENT_RATIOS.map(ratio => ({
+    get: (t: FaceShapeThresholds) => t.spread[ratio],
+    set: (t: FaceShapeThresholds, value: number) => ({ ...t, spread: { ...t.spread, [ratio]: value } }),
+    valid: (t: FaceShapeThresholds) => t.spread[ratio] > 0
+  }));
+  const faceShapeKeys = [...prototypeKeys, ...spreadKeys];
+  const faceShape = coordinateSearch(
+    start.faceShape,
+    faceShapeKeys,
+    t => accuracy(samples, withFaceShape(t), 'faceShape')
+  );
+
+  const withSkinTone = (thresholds: SkinToneThresholds) => ({ ...start, skinTone: thresholds });
+  const descending = (t: SkinToneThresholds) => t.itaBoundaries.every((value, i) => i === 0 || value < t.itaBoundaries[i - 1]);
+  const boundaryKeys = start.skinTone.itaBoundaries.map((_, index) => ({
+    get: (t: SkinToneThresholds) => t.itaBoundaries[index],
+    set: (t: SkinToneThresholds, value: number) => ({
+      ...t,
+      itaBoundaries: t.itaBoundaries.map((old, i) => i === index ? value : old) as SkinToneThresholds['itaBoundaries']
+    }),
+    valid: descending
+  }));
+  const hueKeys = (['warmHueMin', 'coolHueMax'] as const).map(name => ({
+    get: (t: SkinToneThresholds) => t[name],
+    set: (t: SkinToneThresholds, value: number) => ({ ...t, [name]: value }),
+    valid: (t: SkinToneThresholds) => t.coolHueMax <= t.warmHueMin
+  }));
+  const withBoundaries = coordinateSearch(
+    start.skinTone,
+    boundaryKeys,
+    t => accuracy(samples, withSkinTone(t), 'fitzpatrick')
+  );
+  const skinTone = coordinateSearch(
+    withBoundaries,
+    hueKeys,
+    t => accuracy(samples, withSkinTone(t), 'undertone')
+  );
+
+  return { version: start.version + 1, faceShape, skinTone };
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      thresholds: { type: 'string' },
+      calibrate: { type: 'boolean', default: false },
+      out: { type: 'string' }
+    }
+  });
+
+  const [labelsFile] = positionals;
+  if (!labelsFile) {
+    console.error('Usage: npm run evaluate -- <labels.jsonl> [--thresholds file.json] [--calibrate] [--out file.json]');
+    process.exit(1);
+  }
+
+  const thresholds = values.thresholds
+    ? parseThresholds(JSON.parse(await fs.readFile(values.thresholds, 'utf8')))
+    : DEFAULT_THRESHOLDS;
+
+  const labels: LabeledImage[] = (await fs.readFile(labelsFile, 'utf8'))
+    .split('\n')
+    .filter(line => line.trim())
+    .map((line, index) => {
+      const parsed = JSON.parse(line);
+      if (typeof parsed.image !== 'string') {
+        throw new Error(`Line ${index + 1} of ${labelsFile} has no "image"`);
+      }
+      return parsed;
+    });
+
+  console.log(`Loading models to measure ${labels.length} labeled images...`);
+  const service = await getServerAnalysisService();
+  const samples: Sample[] = [];
+  let failures = 0;
+  for (const entry of labels) {
+    try {
+      const pixels = decodeImage(await fs.readFile(path.resolve(path.dirname(labelsFile), entry.image)));
+      const result = await service.analyzeFace(pixels);
+      samples.push({ labels: entry, measurements: result.measurements, lab: result.skinToneDetails.lab });
+    } catch (error) {
+      failures++;
+      console.warn(`Skipping ${entry.image}: ${(error as Error).message}`);
+    }
+  }
+  console.log(`Measured ${samples.length} images, ${failures} could not be analyzed`);
+
+  console.log(`\n=== Thresholds v${thresholds.version} ===`);
+  LABELS.forEach(label => report(samples, thresholds, label));
+
+  if (!values.calibrate) return;
+
+  const calibrated = calibrate(samples, thresholds);
+  console.log(`\n=== Calibrated thresholds v${calibrated.version} ===`);
+  LABELS.forEach(label => report(samples, calibrated, label));
+
+  if (values.out) {
+    await fs.writeFile(values.out, `${JSON.stringify(calibrated, null, 2)}\n`);
+    console.log(`\nWrote ${values.out}`);
+  } else {
+    console.log(`\n${JSON.stringify(calibrated, null, 2)}`);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
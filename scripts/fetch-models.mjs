@@ -0,0 +1,45 @@
+// Downloads the face detection and face mesh weights from TF Hub into
+// public/models so the app and the /api/analyze route can load them
+// without reaching TF Hub at runtime. The tfjs WASM backend binaries are
+// copied alongside so the browser needs no CDN at all.
+import { copyFile, mkdir, readdir, writeFile } from 'fs/promises';
+import { createRequire } from 'module';
+import path from 'path';
+
+const MODELS = {
+  'face-detection-short': 'https://tfhub.dev/mediapipe/tfjs-model/face_detection/short/1',
+  'face-mesh': 'https://tfhub.dev/mediapipe/tfjs-model/face_landmarks_detection/face_mesh/1'
+};
+
+const outputDir = process.env.FACE_MODEL_DIR ?? path.join(process.cwd(), 'public', 'models');
+
+async function download(url) {
+  const response = await fetch(`${url}?tfjs-format=file`);
+  if (!response.ok) {
+    throw new Error(`${url} responded ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+for (const [name, baseUrl] of Object.entries(MODELS)) {
+  const modelDir = path.join(outputDir, name);
+  await mkdir(modelDir, { recursive: true });
+
+  const modelJson = await download(`${baseUrl}/model.json`);
+  await writeFile(path.join(modelDir, 'model.json'), modelJson);
+
+  const { weightsManifest } = JSON.parse(modelJson.toString('utf8'));
+  for (const shard of weightsManifest.flatMap(group => group.paths)) {
+    await writeFile(path.join(modelDir, shard), await download(`${baseUrl}/${shard}`));
+  }
+
+  console.log(`Saved ${name} to ${modelDir}`);
+}
+
+const wasmDist = path.dirname(createRequire(import.meta.url).resolve('@tensorflow/tfjs-backend-wasm'));
+const wasmDir = path.join(outputDir, 'wasm');
+await mkdir(wasmDir, { recursive: true });
+for (const file of (await readdir(wasmDist)).filter(name => name.endsWith('.wasm'))) {
+  await copyFile(path.join(wasmDist, file), path.join(wasmDir, file));
+}
+console.log(`Copied tfjs WASM binaries to ${wasmDir}`);
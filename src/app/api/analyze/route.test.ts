@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { POST } from './route';
+
+const post = (body: BodyInit, headers: Record<string, string>) =>
+  POST(new Request('http://localhost/api/analyze', { method: 'POST', body, headers, duplex: 'half' } as RequestInit));
+
+const errorCode = async (response: Response) => (await response.json()).error.code;
+
+describe('POST /api/analyze', () => {
+  it('answers a malformed multipart body with 400', async () => {
+    const response = await post('not multipart', { 'content-type': 'multipart/form-data; boundary=x' });
+    assert.equal(response.status, 400);
+    assert.equal(await errorCode(response), 'INVALID_REQUEST');
+  });
+
+  it('refuses an oversized upload from its Content-Length', async () => {
+    const response = await post('x', { 'content-type': 'image/jpeg', 'content-length': String(100 * 1024 * 1024) });
+    assert.equal(response.status, 413);
+  });
+
+  it('stops reading an image body once it passes the limit', async () => {
+    let pulled = 0;
+    const chunk = new Uint8Array(1024 * 1024);
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(chunk);
+      }
+    });
+    const response = await post(body, { 'content-type': 'image/jpeg' });
+    assert.equal(response.status, 413);
+    assert.equal(await errorCode(response), 'IMAGE_TOO_LARGE');
+    assert.ok(pulled < 20);
+  });
+});
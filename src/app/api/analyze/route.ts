@@ -0,0 +1,124 @@
+import { NextResponse } from 'next/server';
+import { FaceAnalysisError, FaceAnalysisErrorCode } from '@/services/errors';
+import { primaryFaceIndex } from '@/services/geometry';
+import { decodeImage } from '@/server/decodeImage';
+import { getServerAnalysisService } from '@/server/analysisService';
+
+// tfjs and the image decoders need Node, not the edge runtime
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_UPLOAD_BYTES = 15 * 1024 * 1024;
+// Base64 in a JSON body grows the image by a third, and multipart adds its
+// part headers
+const MAX_BODY_BYTES = Math.ceil(MAX_UPLOAD_BYTES * 4 / 3) + 64 * 1024;
+
+// Codes that only come up in the browser (camera, saved results) never
+// reach here
+const STATUS_BY_CODE: Partial<Record<FaceAnalysisErrorCode | RequestError['code'], number>> = {
+  INVALID_REQUEST: 400,
+  IMAGE_TOO_LARGE: 413,
+  UNSUPPORTED_IMAGE: 415,
+  CORRUPT_IMAGE: 422,
+  NO_FACE: 422,
+  MULTIPLE_FACES: 422,
+  NO_SKIN_VISIBLE: 422,
+  LOW_QUALITY: 422,
+  MODEL_LOAD_FAILED: 503,
+  BACKEND_UNAVAILABLE: 503,
+  INTERNAL_ERROR: 500
+};
+
+const errorResponse = (code: FaceAnalysisErrorCode | RequestError['code'], message: string) =>
+  NextResponse.json({ error: { code, message } }, { status: STATUS_BY_CODE[code] ?? 500 });
+
+class RequestError extends Error {
+  constructor(readonly code: 'INVALID_REQUEST' | 'IMAGE_TOO_LARGE', message: string) {
+    super(message);
+  }
+}
+
+const tooLarge = () =>
+  new RequestError('IMAGE_TOO_LARGE', `Images must be smaller than ${MAX_UPLOAD_BYTES / 1024 / 1024}MB.`);
+
+// Reads the body, giving up as soon as it passes `limit` bytes rather than
+// buffering all of it first
+async function readBody(request: Request, limit: number): Promise<Buffer> {
+  if (Number(request.headers.get('content-length')) > limit) throw tooLarge();
+  const reader = request.body?.getReader();
+  if (!reader) return Buffer.alloc(0);
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return Buffer.concat(chunks);
+    size += value.length;
+    if (size > limit) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+}
+
+// Accepts multipart/form-data with an `image` file, JSON with an `image`
+// base64 string (a data URL works too), or a raw image body.
+async function readUpload(request: Request): Promise<Buffer> {
+  const contentType = request.headers.get('content-type') ?? '';
+  let buffer: Buffer;
+
+  if (contentType.startsWith('multipart/form-data')) {
+    const body = await readBody(request, MAX_BODY_BYTES);
+    const form = await new Response(body, { headers: { 'content-type': contentType } }).formData().catch(() => null);
+    if (!form) {
+      throw new RequestError('INVALID_REQUEST', 'The multipart/form-data body could not be read.');
+    }
+    const file = form.get('image');
+    if (!file || typeof file === 'string') {
+      throw new RequestError('INVALID_REQUEST', 'Expected an "image" file field.');
+    }
+    buffer = Buffer.from(await file.arrayBuffer());
+  } else if (contentType.startsWith('application/json')) {
+    const body = await new Response(await readBody(request, MAX_BODY_BYTES)).json().catch(() => null);
+    if (typeof body?.image !== 'string') {
+      throw new RequestError('INVALID_REQUEST', 'Expected a JSON body with a base64 "image" string.');
+    }
+    buffer = Buffer.from(body.image.replace(/^data:[^;]+;base64,/, ''), 'base64');
+  } else if (contentType.startsWith('image/')) {
+    buffer = await readBody(request, MAX_UPLOAD_BYTES);
+  } else {
+    throw new RequestError('INVALID_REQUEST', 'Send the image as multipart/form-data, JSON or an image/* body.');
+  }
+
+  if (buffer.length === 0) {
+    throw new RequestError('INVALID_REQUEST', 'The image is empty.');
+  }
+  if (buffer.length > MAX_UPLOAD_BYTES) throw tooLarge();
+  return buffer;
+}
+
+// `?singleFace=true` fails with MULTIPLE_FACES instead of analyzing every
+// face, `?rejectLowQuality=true` fails with LOW_QUALITY when the main face
+// fails a quality check
+export async function POST(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const pixels = decodeImage(await readUpload(request));
+    const service = await getServerAnalysisService();
+
+    const faces = await service.analyzeFaces(pixels, {
+      singleFace: params.get('singleFace') === 'true',
+      rejectLowQuality: params.get('rejectLowQuality') === 'true'
+    });
+    const primary = primaryFaceIndex(faces.map(face => face.box), pixels.width, pixels.height);
+
+    return NextResponse.json({ result: faces[primary], faces });
+  } catch (error) {
+    if (error instanceof RequestError || error instanceof FaceAnalysisError) {
+      return errorResponse(error.code, error.message);
+    }
+    console.error('Analysis error:', error);
+    return errorResponse('INTERNAL_ERROR', 'Failed to analyze the image.');
+  }
+}
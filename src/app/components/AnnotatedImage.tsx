@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { FaceAnalysisResult } from '@/services/faceAnalysis';
+import type { FaceAnchors } from '@/services/geometry';
+
+type Layer = 'box' | 'keypoints' | 'measurements' | 'skinRegions';
+
+interface AnnotatedImageProps {
+  src: string;
+  analysis: Pick<FaceAnalysisResult, 'box' | 'anchors' | 'measurements' | 'skinToneDetails'>;
+}
+
+const LAYERS: { id: Layer; label: string }[] = [
+  { id: 'box', label: 'Face box' },
+  { id: 'keypoints', label: 'Keypoints' },
+  { id: 'measurements', label: 'Measurements' },
+  { id: 'skinRegions', label: 'Skin samples' }
+];
+
+const KEYPOINTS: (keyof Omit<FaceAnchors, 'box'>)[] = [
+  'leftEye',
+  'rightEye',
+  'noseTip',
+  'mouthCenter',
+  'leftEar',
+  'rightEar'
+];
+
+const MEASUREMENT_COLORS: Record<keyof FaceAnalysisResult['measurements']['lines'], string> = {
+  faceWidth: '#f59e0b',
+  faceHeight: '#f59e0b',
+  foreheadWidth: '#10b981',
+  jawWidth: '#8b5cf6',
+  chinLength: '#ef4444'
+};
+
+const drawAnnotations = (
+  canvas: HTMLCanvasElement,
+  image: HTMLImageElement,
+  analysis: AnnotatedImageProps['analysis'],
+  layers: Record<Layer, boolean>
+) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  ctx.drawImage(image, 0, 0);
+
+  // Keep strokes and labels readable whatever the photo resolution
+  const unit = Math.max(1, Math.min(canvas.width, canvas.height) / 400);
+  ctx.font = `${Math.round(11 * unit)}px sans-serif`;
+  ctx.lineWidth = 2 * unit;
+
+  if (layers.skinRegions) {
+    analysis.skinToneDetails.regions.forEach(region => {
+      ctx.strokeStyle = '#ffffff';
+      ctx.setLineDash([4 * unit, 3 * unit]);
+      ctx.strokeRect(region.x, region.y, region.width, region.height);
+      ctx.setLineDash([]);
+      ctx.fillStyle = `rgb(${region.rgb.r}, ${region.rgb.g}, ${region.rgb.b})`;
+      ctx.fillRect(region.x, region.y + region.height + 2 * unit, 10 * unit, 10 * unit);
+    });
+  }
+
+  if (layers.box) {
+    const { box } = analysis;
+    ctx.strokeStyle = '#3b82f6';
+    ctx.strokeRect(box.xMin, box.yMin, box.width, box.height);
+  }
+
+  if (layers.measurements) {
+    Object.entries(analysis.measurements.lines).forEach(([name, [from, to]]) => {
+      ctx.strokeStyle = MEASUREMENT_COLORS[name as keyof typeof MEASUREMENT_COLORS];
+      ctx.beginPath();
+      ctx.moveTo(from[0], from[1]);
+      ctx.lineTo(to[0], to[1]);
+      ctx.stroke();
+      ctx.fillStyle = ctx.strokeStyle;
+      ctx.fillText(name, to[0] + 3 * unit, to[1] - 3 * unit);
+    });
+  }
+
+  if (layers.keypoints) {
+    KEYPOINTS.forEach(name => {
+      const point = analysis.anchors[name];
+      if (!point) return;
+      ctx.fillStyle = '#3b82f6';
+      ctx.beginPath();
+      ctx.arc(point[0], point[1], 3 * unit, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(name, point[0] + 5 * unit, point[1] + 4 * unit);
+    });
+  }
+};
+
+const AnnotatedImage = ({ src, analysis }: AnnotatedImageProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [layers, setLayers] = useState<Record<Layer, boolean>>({
+    box: true,
+    keypoints: true,
+    measurements: true,
+    skinRegions: true
+  });
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setImage(img);
+    img.src = src;
+    return () => {
+      img.onload = null;
+    };
+  }, [src]);
+
+  useEffect(() => {
+    if (image && canvasRef.current) {
+      drawAnnotations(canvasRef.current, image, analysis, layers);
+    }
+  }, [image, analysis, layers]);
+
+  const download = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const link = document.createElement('a');
+    link.href = canvas.toDataURL('image/png');
+    link.download = 'face-analysis.png';
+    link.click();
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas ref={canvasRef} className="w-full h-auto rounded-lg bg-gray-100" />
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-700">
+        {LAYERS.map(layer => (
+          <label key={layer.id} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={layers[layer.id]}
+              onChange={(event) => setLayers(prev => ({ ...prev, [layer.id]: event.target.checked }))}
+            />
+            {layer.label}
+          </label>
+        ))}
+        <button
+          onClick={download}
+          disabled={!image}
+          className="ml-auto text-blue-600 hover:underline disabled:text-gray-400"
+        >
+          Download
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AnnotatedImage;
@@ -0,0 +1,90 @@
+import React from 'react';
+import type { FaceAnalysisResult } from '@/services/faceAnalysis';
+import type { HistoryEntry } from '@/services/history';
+import { measurementRatios } from '@/services/proportions';
+
+interface CompareViewProps {
+  entries: [HistoryEntry, HistoryEntry];
+}
+
+interface Row {
+  label: string;
+  value: (result: FaceAnalysisResult) => string | number;
+  // Numbers closer than this count as the same measurement; labels must match exactly
+  tolerance?: number;
+  digits?: number;
+}
+
+// Ratios rather than pixel sizes, which change with photo resolution and
+// distance to the camera
+const ROWS: Row[] = [
+  { label: 'Face shape', value: result => result.faceShape },
+  { label: 'Skin tone', value: result => result.skinTone },
+  { label: 'Fitzpatrick', value: result => result.skinToneDetails.fitzpatrick },
+  { label: 'Undertone', value: result => result.skinToneDetails.undertone },
+  // Missing from results saved before color analysis existed
+  { label: 'Color season', value: result => result.colorAnalysis?.season ?? '—' },
+  { label: 'ITA°', value: result => result.skinToneDetails.ita, tolerance: 3, digits: 1 },
+  { label: 'Length / width', value: result => measurementRatios(result.measurements).lengthToWidth, tolerance: 0.05, digits: 2 },
+  { label: 'Forehead / jaw', value: result => measurementRatios(result.measurements).foreheadToJaw, tolerance: 0.05, digits: 2 },
+  { label: 'Chin / length', value: result => measurementRatios(result.measurements).chinToLength, tolerance: 0.02, digits: 2 },
+  { label: 'Confidence', value: result => result.confidence, tolerance: 0.1, digits: 2 },
+  { label: 'Photo quality', value: result => result.quality.status },
+  { label: 'Lighting', value: result => result.lighting?.score ?? '—', tolerance: 10 },
+  // Missing without the face mesh, and from results saved before features existed
+  { label: 'Eyes', value: result => result.features?.eyes.shape ?? '—' },
+  { label: 'Lips', value: result => result.features?.lips.fullness ?? '—' },
+  { label: 'Symmetry', value: result => result.features?.symmetry ?? '—', tolerance: 5 }
+];
+
+const format = (value: string | number, digits = 0) =>
+  typeof value === 'number' ? value.toFixed(digits) : value;
+
+const differs = (row: Row, a: string | number, b: string | number) =>
+  typeof a === 'number' && typeof b === 'number'
+    ? Math.abs(a - b) > (row.tolerance ?? 0)
+    : a !== b;
+
+const CompareView = ({ entries }: CompareViewProps) => {
+  const [first, second] = entries;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3">
+      <div className="grid grid-cols-3 gap-2 items-end text-xs text-gray-500">
+        <span />
+        {entries.map(entry => (
+          <div key={entry.id} className="text-center">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={entry.thumbnail} alt="" className="mx-auto h-16 rounded object-cover" />
+            <p className="mt-1">{new Date(entry.createdAt).toLocaleString()}</p>
+          </div>
+        ))}
+      </div>
+      <table className="mt-2 w-full text-sm">
+        <tbody>
+          {ROWS.map(row => {
+            const a = row.value(first.result);
+            const b = row.value(second.result);
+            const changed = differs(row, a, b);
+            return (
+              <tr key={row.label} className={changed ? 'bg-yellow-50 font-medium text-gray-900' : 'text-gray-600'}>
+                <td className="py-1 pr-2">{row.label}</td>
+                <td className="py-1 text-center">{format(a, row.digits)}</td>
+                <td className="py-1 text-center">
+                  {format(b, row.digits)}
+                  {changed && typeof a === 'number' && typeof b === 'number' && (
+                    <span className="ml-1 text-xs text-gray-500">
+                      ({b > a ? '+' : ''}{(b - a).toFixed(row.digits ?? 0)})
+                    </span>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default CompareView;
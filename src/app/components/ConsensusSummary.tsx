@@ -0,0 +1,49 @@
+import React from 'react';
+import type { ConsensusAnalysis } from '@/services/consensus';
+
+interface ConsensusSummaryProps {
+  consensus: ConsensusAnalysis;
+  // The photos of the set, in the order they were analyzed
+  photos: string[];
+}
+
+const ConsensusSummary = ({ consensus, photos }: ConsensusSummaryProps) => {
+  const { result, base, shapeAgreement, toneAgreement } = consensus;
+  const used = consensus.photos.filter(photo => photo.used).length;
+  const agreeing = (share: number) => `${Math.round(share * used)} of ${used}`;
+
+  return (
+    <div className="p-4 rounded-lg bg-gray-50">
+      <p className="font-semibold">Combined from {photos.length} photos</p>
+      <p className="mt-1 text-sm text-gray-600">
+        {result.faceShape} in {agreeing(shapeAgreement)} photos · {result.skinTone} in {agreeing(toneAgreement)} photos
+      </p>
+      <ul className="mt-3 space-y-2">
+        {consensus.photos.map((photo, index) => (
+          <li key={index} className="flex items-start gap-3 text-sm">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={photos[index]}
+              alt={`Photo ${index + 1}`}
+              className={`h-12 w-12 flex-none rounded object-cover ${photo.used ? '' : 'opacity-50'}`}
+            />
+            <div className="min-w-0">
+              <p className="text-gray-900">
+                Photo {index + 1}: {photo.faceShape} · {photo.skinTone}
+                {index === base && <span className="text-gray-500"> · shown</span>}
+              </p>
+              {photo.outlier && (
+                <p className={`text-xs ${photo.used ? 'text-yellow-800' : 'text-red-700'}`}>
+                  {photo.used ? 'Used anyway, too few photos agree. ' : 'Left out. '}
+                  {photo.reasons.join('. ')}.
+                </p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ConsensusSummary;
@@ -0,0 +1,55 @@
+import React from 'react';
+import type { FaceAnalysisError, FaceAnalysisErrorCode } from '@/services/errors';
+
+export type RecoveryAction = 'startOver' | 'retry' | 'reload' | 'dismiss';
+
+interface ErrorNoticeProps {
+  error: FaceAnalysisError;
+  // Whatever failed can be run again; without it 'retry' becomes 'dismiss'
+  canRetry: boolean;
+  onAction: (action: RecoveryAction) => void;
+}
+
+// A headline for each code and what the user can do next. The error's own
+// message says what exactly happened.
+const GUIDANCE: Record<FaceAnalysisErrorCode, { title: string; action: RecoveryAction }> = {
+  NO_FACE: { title: 'No face found', action: 'startOver' },
+  MULTIPLE_FACES: { title: 'More than one face', action: 'startOver' },
+  NO_SKIN_VISIBLE: { title: 'Skin tone could not be read', action: 'startOver' },
+  LOW_QUALITY: { title: 'Photo quality is too low', action: 'startOver' },
+  UNSUPPORTED_IMAGE: { title: 'Unsupported file type', action: 'startOver' },
+  CORRUPT_IMAGE: { title: 'Photo could not be opened', action: 'startOver' },
+  IMAGE_TOO_LARGE: { title: 'Photo is too large', action: 'startOver' },
+  CAMERA_UNAVAILABLE: { title: 'Camera unavailable', action: 'dismiss' },
+  MODEL_LOAD_FAILED: { title: 'Face models did not load', action: 'retry' },
+  BACKEND_UNAVAILABLE: { title: 'This browser is not supported', action: 'reload' },
+  INVALID_RESULT: { title: 'Analysis could not be opened', action: 'dismiss' },
+  INTERNAL_ERROR: { title: 'Something went wrong', action: 'retry' }
+};
+
+const ACTION_LABELS: Record<RecoveryAction, string> = {
+  startOver: 'Try another photo',
+  retry: 'Try again',
+  reload: 'Reload the page',
+  dismiss: 'Dismiss'
+};
+
+const ErrorNotice = ({ error, canRetry, onAction }: ErrorNoticeProps) => {
+  const { title, action: suggested } = GUIDANCE[error.code];
+  const action = suggested === 'retry' && !canRetry ? 'dismiss' : suggested;
+
+  return (
+    <div className="bg-red-50 text-red-700 p-4 rounded-lg mb-4" role="alert">
+      <p className="font-semibold">{title}</p>
+      <p>{error.message}</p>
+      <button
+        onClick={() => onAction(action)}
+        className="mt-2 text-sm font-medium text-red-800 underline hover:no-underline"
+      >
+        {ACTION_LABELS[action]}
+      </button>
+    </div>
+  );
+};
+
+export default ErrorNotice;
@@ -0,0 +1,46 @@
+import React from 'react';
+import type { FaceShapeDetails } from '@/services/faceShape';
+
+interface FaceShapeScoresProps {
+  details: FaceShapeDetails;
+}
+
+// Runner-up shapes below this share aren't worth mentioning
+const LEANING_MIN_PROBABILITY = 0.15;
+// Most bars to draw; the long tail is all near zero
+const MAX_BARS = 4;
+
+const percent = (probability: number) => `${Math.round(probability * 100)}%`;
+
+const FaceShapeScores = ({ details }: FaceShapeScoresProps) => {
+  const [best, runnerUp] = details.top;
+  const bars = details.scores.slice(0, MAX_BARS).filter(score => score.probability >= 0.01);
+
+  return (
+    <div>
+      <p className="text-gray-600">
+        Face Shape:{' '}
+        <span className="text-gray-900">
+          {best.shape} ({percent(best.probability)})
+          {runnerUp.probability >= LEANING_MIN_PROBABILITY && `, leaning ${runnerUp.shape}`}
+        </span>
+      </p>
+      <ul className="mt-1 space-y-1 text-xs text-gray-600">
+        {bars.map(score => (
+          <li key={score.shape} className="flex items-center gap-2">
+            <span className="w-28 truncate">{score.shape}</span>
+            <span className="h-2 w-24 bg-gray-100 rounded-full overflow-hidden">
+              <span
+                className="block h-full bg-blue-500 rounded-full"
+                style={{ width: percent(score.probability) }}
+              />
+            </span>
+            <span className="w-8 text-right">{percent(score.probability)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default FaceShapeScores;
@@ -0,0 +1,23 @@
+import React from 'react';
+import { describeFeatures } from '@/services/facialFeatures';
+import type { FacialFeatures } from '@/services/facialFeatures';
+
+interface FeatureSummaryProps {
+  features: FacialFeatures;
+}
+
+const FeatureSummary = ({ features }: FeatureSummaryProps) => (
+  <div>
+    <h3 className="font-semibold text-lg mb-2">Facial Features:</h3>
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+      {describeFeatures(features).map(({ label, value }) => (
+        <React.Fragment key={label}>
+          <dt className="text-gray-600">{label}</dt>
+          <dd className="text-gray-900">{value}</dd>
+        </React.Fragment>
+      ))}
+    </dl>
+  </div>
+);
+
+export default FeatureSummary;
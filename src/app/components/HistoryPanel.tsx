@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import type { HistoryEntry } from '@/services/history';
+import CompareView from './CompareView';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const HistoryPanel = ({ entries, onDelete, onClear, onExport, onClose }: HistoryPanelProps) => {
+  // Up to two entry ids, oldest pick first
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => prev.includes(id)
+      ? prev.filter(other => other !== id)
+      : [...prev, id].slice(-2));
+  };
+
+  const compared = compareIds
+    .map(id => entries.find(entry => entry.id === id))
+    .filter((entry): entry is HistoryEntry => entry !== undefined);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-lg">History</h3>
+        <button onClick={onClose} className="text-sm text-blue-600 hover:underline">Back</button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">Analyses you run are saved here, on this device only.</p>
+      ) : (
+        <>
+          <div className="flex gap-2 text-sm">
+            <button
+              onClick={onExport}
+              className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Export all
+            </button>
+            <button
+              onClick={() => {
+                if (window.confirm('Delete all saved analyses?')) onClear();
+              }}
+              className="px-3 py-1 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+            >
+              Clear all
+            </button>
+          </div>
+
+          {compared.length === 2 ? (
+            <CompareView entries={[compared[0], compared[1]]} />
+          ) : (
+            <p className="text-xs text-gray-500">Tick two analyses to compare them side by side.</p>
+          )}
+
+          <ul className="space-y-2">
+            {entries.map(entry => (
+              <li key={entry.id} className="flex items-center gap-3 p-2 bg-gray-50 rounded-lg">
+                <input
+                  type="checkbox"
+                  aria-label="Compare"
+                  checked={compareIds.includes(entry.id)}
+                  onChange={() => toggleCompare(entry.id)}
+                />
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={entry.thumbnail} alt="" className="h-12 w-12 rounded object-cover" />
+                <div className="flex-1 text-sm">
+                  <p className="text-gray-900">{entry.result.faceShape} · {entry.result.skinTone}</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(entry.createdAt).toLocaleString()} · v{entry.appVersion}
+                  </p>
+                </div>
+                <button
+                  onClick={() => {
+                    setCompareIds(prev => prev.filter(id => id !== entry.id));
+                    onDelete(entry.id);
+                  }}
+                  className="text-xs text-red-600 hover:underline"
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,57 @@
+import React, { useMemo, useState } from 'react';
+import type { FaceAnalysisResult } from '@/services/analysisResult';
+import { PRODUCT_CATEGORIES, PRODUCT_CATEGORY_LABELS, faceWidthMm, matchProducts } from '@/services/products';
+import type { ProductCategory } from '@/services/products';
+
+interface ProductGridProps {
+  analysis: FaceAnalysisResult;
+}
+
+const ProductGrid = ({ analysis }: ProductGridProps) => {
+  const [category, setCategory] = useState<ProductCategory>('eyewear');
+  const matches = useMemo(() => matchProducts(analysis), [analysis]);
+  const widthMm = faceWidthMm(analysis);
+
+  return (
+    <div>
+      <h3 className="font-semibold text-lg mb-2">Products For You:</h3>
+      <div className="flex gap-2 text-sm mb-3">
+        {PRODUCT_CATEGORIES.map(option => (
+          <button
+            key={option}
+            onClick={() => setCategory(option)}
+            className={`px-3 py-1 rounded-lg border transition-colors ${category === option
+              ? 'border-blue-500 bg-blue-50 text-blue-700'
+              : 'border-gray-300 hover:bg-gray-50'}`}
+          >
+            {PRODUCT_CATEGORY_LABELS[option]}
+          </button>
+        ))}
+      </div>
+      {category === 'eyewear' && (
+        <p className="text-xs text-gray-500 mb-2">
+          {widthMm === null
+            ? 'Frame sizes are not checked: the eyes were not found.'
+            : `Frames are sized for a face about ${Math.round(widthMm)} mm wide, estimated from the distance between your eyes.`}
+        </p>
+      )}
+      <ul className="grid grid-cols-2 gap-3">
+        {matches.filter(({ product }) => product.category === category).map(({ product, score, reasons }) => (
+          <li key={product.id} className="p-3 bg-gray-50 rounded-lg">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={product.image} alt={product.name} className="h-20 w-full object-contain" />
+            <p className="mt-2 text-sm text-gray-900">{product.name}</p>
+            <p className="text-xs text-gray-600">Match {score}/100</p>
+            <ul className="mt-1 space-y-1">
+              {reasons.map(reason => (
+                <li key={reason} className="text-xs text-gray-500">{reason}</li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ProductGrid;
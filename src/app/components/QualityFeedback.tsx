@@ -0,0 +1,30 @@
+import React from 'react';
+import type { QualityReport } from '@/services/imageQuality';
+
+interface QualityFeedbackProps {
+  report: QualityReport;
+  blocked: boolean;
+}
+
+const QualityFeedback = ({ report, blocked }: QualityFeedbackProps) => {
+  const issues = report.checks.filter(check => check.status !== 'pass');
+  if (issues.length === 0) return null;
+
+  return (
+    <div className={`p-4 rounded-lg ${blocked ? 'bg-red-50 text-red-700' : 'bg-yellow-50 text-yellow-800'}`}>
+      <p className="font-semibold">
+        {blocked ? 'Photo quality is too low to analyze' : 'Tips for a more accurate result'}
+      </p>
+      <ul className="mt-2 space-y-1 text-sm">
+        {issues.map(check => (
+          <li key={check.name}>
+            <span className="font-medium">{check.status === 'fail' ? '✕' : '!'} {check.message}.</span>{' '}
+            {check.guidance}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default QualityFeedback;
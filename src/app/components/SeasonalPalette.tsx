@@ -0,0 +1,53 @@
+import React from 'react';
+import type { ColorAnalysis, FeatureColor, Swatch } from '@/services/colorAnalysis';
+
+interface SeasonalPaletteProps {
+  analysis: ColorAnalysis;
+}
+
+const Chip = ({ swatch }: { swatch: Swatch }) => (
+  <li className="flex items-center gap-2">
+    <span className="h-6 w-6 shrink-0 rounded border border-gray-300" style={{ backgroundColor: swatch.hex }} />
+    <span className="text-xs leading-tight">
+      <span className="block text-gray-900">{swatch.name}</span>
+      <span className="block font-mono text-gray-500">{swatch.hex}</span>
+    </span>
+  </li>
+);
+
+const Feature = ({ label, color }: { label: string; color: FeatureColor | null }) => (
+  <span className="flex items-center gap-1">
+    {label}:
+    {color ? (
+      <>
+        <span className="inline-block h-3 w-3 rounded-full border border-gray-300" style={{ backgroundColor: color.hex }} />
+        <span className="text-gray-900">{color.label}</span>
+      </>
+    ) : (
+      <span className="text-gray-400">not found</span>
+    )}
+  </span>
+);
+
+const SeasonalPalette = ({ analysis }: SeasonalPaletteProps) => (
+  <div>
+    <h3 className="font-semibold text-lg">Color Season: {analysis.season}</h3>
+    <div className="flex flex-wrap gap-x-4 text-sm text-gray-600">
+      <Feature label="Hair" color={analysis.hair} />
+      <Feature label="Eyes" color={analysis.eyes} />
+      <span>{analysis.contrastLevel} contrast</span>
+    </div>
+    <p className="mt-1 text-sm text-gray-700">{analysis.explanation}</p>
+
+    <h4 className="mt-3 font-medium text-gray-900 mb-2">Colors to wear</h4>
+    <ul className="grid grid-cols-3 gap-2">
+      {analysis.palette.recommended.map(swatch => <Chip key={swatch.hex} swatch={swatch} />)}
+    </ul>
+    <h4 className="mt-3 font-medium text-gray-900 mb-2">Colors to avoid</h4>
+    <ul className="grid grid-cols-3 gap-2">
+      {analysis.palette.avoid.map(swatch => <Chip key={swatch.hex} swatch={swatch} />)}
+    </ul>
+  </div>
+);
+
+export default SeasonalPalette;
@@ -2,44 +2,289 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { Camera } from 'lucide-react';
-import { FaceAnalysisService } from '@/services/faceAnalysis';
+import { getFaceAnalysisClient } from '@/services/analysisClient';
+import { MAX_CONSENSUS_PHOTOS, MIN_CONSENSUS_PHOTOS, combineAnalyses } from '@/services/consensus';
+import type { ConsensusAnalysis } from '@/services/consensus';
+import { FaceAnalysisError, toFaceAnalysisError } from '@/services/errors';
+import { mirrorAnalysisResult, scaleAnalysisResult } from '@/services/faceAnalysis';
+import type { FaceAnalysisResult, LoadProgress } from '@/services/faceAnalysis';
+import { primaryFaceIndex } from '@/services/geometry';
+import { AutoShutter, alignmentGuide, checkAlignment } from '@/services/guidedCapture';
+import type { AlignmentCheck, ShutterState } from '@/services/guidedCapture';
+import { clearHistory, deleteHistoryEntry, exportHistory, listHistory, saveToHistory } from '@/services/history';
+import type { HistoryEntry } from '@/services/history';
+import { downloadBlob, loadImage } from '@/services/images';
+import { ingestImage } from '@/services/ingest';
+import { offlineSupported, precacheForOffline } from '@/services/offlineCache';
+import type { OfflineStatus } from '@/services/offlineCache';
+import { LiveAnalysisTracker } from '@/services/liveAnalysis';
+import type { LiveSnapshot } from '@/services/liveAnalysis';
+import { CATEGORY_LABELS, groupByCategory } from '@/services/recommendations';
+import { createReport, parseReport, reportToCard, reportToJson, reportToPdf } from '@/services/report';
+import { skinToneLabel } from '@/services/skinTone';
+import {
+  DEFAULT_TRY_ON_CATALOG,
+  TRY_ON_KINDS,
+  TRY_ON_KIND_LABELS,
+  drawTryOnAsset,
+  loadTryOnImage,
+  suitsFaceShape,
+  tryOnAssetsFor
+} from '@/services/tryOn';
+import type { TryOnAsset } from '@/services/tryOn';
+import AnnotatedImage from './AnnotatedImage';
+import ConsensusSummary from './ConsensusSummary';
+import ErrorNotice from './ErrorNotice';
+import type { RecoveryAction } from './ErrorNotice';
+import FaceShapeScores from './FaceShapeScores';
+import FeatureSummary from './FeatureSummary';
+import HistoryPanel from './HistoryPanel';
+import ProductGrid from './ProductGrid';
+import QualityFeedback from './QualityFeedback';
+import SeasonalPalette from './SeasonalPalette';
+import TryOn from './TryOn';
 
-interface Analysis {
-  faceShape: string;
-  skinTone: string;
-  recommendations: string[];
+// Most faces we offer to pick from in a group photo
+const MAX_FACES = 6;
+// Delay between live preview analyses
+const LIVE_INTERVAL_MS = 300;
+// Aligned live frames in a row before the auto-shutter fires
+const AUTO_CAPTURE_FRAMES = 5;
+
+const RESOLUTIONS = {
+  '480p': { width: 640, height: 480 },
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 }
+};
+type Resolution = keyof typeof RESOLUTIONS;
+
+// Shared by uploads, captures and the live preview, so the models load once
+const analysisClient = () => getFaceAnalysisClient({ useLandmarks: true, maxFaces: MAX_FACES });
+
+// A photo collected for a multi-photo consensus: shown from `url` and
+// analyzed from the smaller copy in `analysis`
+interface SetPhoto {
+  url: string;
+  analysis: { url: string; scale: number };
 }
 
+interface LiveTryOn {
+  asset: TryOnAsset;
+  image: HTMLImageElement;
+}
+
+// Draws the alignment oval, then boxes and keypoints in video pixel space,
+// or the try-on asset in place of them on the main face. The canvas is
+// mirrored with CSS exactly like the preview, so nothing here needs flipping.
+const drawLiveOverlay = (
+  canvas: HTMLCanvasElement,
+  results: FaceAnalysisResult[],
+  primary: FaceAnalysisResult | null,
+  tryOn: LiveTryOn | null,
+  aligned: boolean
+) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+  // Dim everything outside the oval
+  const guide = alignmentGuide(canvas.width, canvas.height);
+  ctx.beginPath();
+  ctx.rect(0, 0, canvas.width, canvas.height);
+  ctx.ellipse(guide.centerX, guide.centerY, guide.radiusX, guide.radiusY, 0, 0, Math.PI * 2);
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+  ctx.fill('evenodd');
+  ctx.strokeStyle = aligned ? '#22c55e' : 'rgba(255, 255, 255, 0.8)';
+  ctx.lineWidth = 4;
+  ctx.beginPath();
+  ctx.ellipse(guide.centerX, guide.centerY, guide.radiusX, guide.radiusY, 0, 0, Math.PI * 2);
+  ctx.stroke();
+
+  results.forEach(result => {
+    const isPrimary = result === primary;
+    if (isPrimary && tryOn) {
+      drawTryOnAsset(ctx, tryOn.asset, tryOn.image, result.anchors);
+      return;
+    }
+    const { box, anchors } = result;
+    ctx.strokeStyle = isPrimary ? '#3b82f6' : 'rgba(255, 255, 255, 0.7)';
+    ctx.lineWidth = isPrimary ? 4 : 2;
+    ctx.strokeRect(box.xMin, box.yMin, box.width, box.height);
+
+    ctx.fillStyle = isPrimary ? '#3b82f6' : 'rgba(255, 255, 255, 0.7)';
+    [anchors.leftEye, anchors.rightEye, anchors.noseTip, anchors.mouthCenter, anchors.leftEar, anchors.rightEar]
+      .forEach(point => {
+        if (!point) return;
+        ctx.beginPath();
+        ctx.arc(point[0], point[1], isPrimary ? 5 : 3, 0, Math.PI * 2);
+        ctx.fill();
+      });
+  });
+};
+
 const SelfieAnalyzer = () => {
   const [image, setImage] = useState<string | null>(null);
-  const [analysis, setAnalysis] = useState<Analysis | null>(null);
+  // Downscaled copy of an uploaded photo to analyze instead of `image`,
+  // with the factor that maps its coordinates back onto `image`
+  const [analysisImage, setAnalysisImage] = useState<{ url: string; scale: number } | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [faces, setFaces] = useState<FaceAnalysisResult[]>([]);
+  const [selectedFace, setSelectedFace] = useState(0);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<FaceAnalysisError | null>(null);
+  // Runs whatever produced `error` again, when that makes sense
+  const retryRef = useRef<(() => void) | null>(null);
   const [debug, setDebug] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const [isCameraOpen, setIsCameraOpen] = useState(false);
   const [stream, setStream] = useState<MediaStream | null>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const [isLiveMode, setIsLiveMode] = useState(false);
+  const [requireGoodQuality, setRequireGoodQuality] = useState(true);
+  const [liveStatus, setLiveStatus] = useState<LiveSnapshot | null>(null);
+  const [alignment, setAlignment] = useState<AlignmentCheck[] | null>(null);
+  const [shutterState, setShutterState] = useState<ShutterState | null>(null);
+  const [autoCapture, setAutoCapture] = useState(false);
+  const [countdownSeconds, setCountdownSeconds] = useState(3);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  // Empty for the browser's default front camera
+  const [cameraId, setCameraId] = useState('');
+  const [resolution, setResolution] = useState<Resolution>('720p');
+  const [mirrorPreview, setMirrorPreview] = useState(true);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+  const [offlineStatus, setOfflineStatus] = useState<OfflineStatus>('unsupported');
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const liveTrackerRef = useRef(new LiveAnalysisTracker());
+  // The live loop reads these on every frame instead of restarting when they change
+  const autoShutterRef = useRef<AutoShutter | null>(null);
+  const captureImageRef = useRef<() => void>(() => {});
+  const [liveTryOnId, setLiveTryOnId] = useState('');
+  // Read by the live loop on every frame, so changing it doesn't restart the loop
+  const liveTryOnRef = useRef<LiveTryOn | null>(null);
+  const [resultView, setResultView] = useState<'annotated' | 'tryOn'>('annotated');
+  // Photos collected for a multi-photo consensus, or null when analyzing one
+  const [photoSet, setPhotoSet] = useState<SetPhoto[] | null>(null);
+  const [consensus, setConsensus] = useState<{ analysis: ConsensusAnalysis; photos: string[] } | null>(null);
+
+  const analysis = faces[selectedFace] ?? null;
+  const isQualityBlocked = requireGoodQuality && analysis?.quality.status === 'fail';
 
   const addDebugMessage = (message: string) => {
     setDebug(prev => [...prev, `${new Date().toISOString()}: ${message}`]);
     console.log(message);
   };
+  const showError = (error: FaceAnalysisError, retry?: () => void) => {
+    retryRef.current = retry ?? null;
+    setError(error);
+  };
+
+  const recordAnalysis = (imageUrl: string, result: FaceAnalysisResult) => {
+    saveToHistory(imageUrl, result)
+      .then(entry => setHistory(prev => [entry, ...prev]))
+      .catch(error => addDebugMessage(`Could not save to history: ${error}`));
+  };
+
+  const removeHistoryEntry = (id: string) => {
+    deleteHistoryEntry(id)
+      .then(() => setHistory(prev => prev.filter(entry => entry.id !== id)))
+      .catch(error => addDebugMessage(`Could not delete history entry: ${error}`));
+  };
+
+  const clearAllHistory = () => {
+    clearHistory()
+      .then(() => setHistory([]))
+      .catch(error => addDebugMessage(`Could not clear history: ${error}`));
+  };
+
+  const downloadHistory = async () => {
+    try {
+      downloadBlob(await exportHistory(), `selfie-analysis-history-${new Date().toISOString().slice(0, 10)}.json`);
+    } catch (error) {
+      addDebugMessage(`Could not export history: ${error}`);
+    }
+  };
+
+  useEffect(() => {
+    listHistory()
+      .then(setHistory)
+      .catch(error => addDebugMessage(`Could not load history: ${error}`));
+  }, []);
+
+  // Pasting a photo works like picking one, while nothing else is open.
+  // The listener goes through a ref so it always calls the current render's
+  // ingestFile without being re-added every render.
+  const acceptsPaste = !image && !isCameraOpen && !isPreparing;
+  const ingestFileRef = useRef<(file: Blob) => void>(() => {});
+  useEffect(() => {
+    if (!acceptsPaste) return;
+
+    const handlePaste = (event: ClipboardEvent) => {
+      const item = Array.from(event.clipboardData?.items ?? []).find(entry => entry.kind === 'file');
+      const file = item?.getAsFile();
+      if (file) {
+        event.preventDefault();
+        ingestFileRef.current(file);
+      }
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [acceptsPaste]);
 
   useEffect(() => {
     if (!navigator.mediaDevices?.getUserMedia) {
-      setError('Your browser does not support camera access');
+      setError(new FaceAnalysisError('CAMERA_UNAVAILABLE', 'Your browser does not support camera access.'));
       return;
     }
+  }, []);
+
+  // Device labels are only filled in once camera permission is granted, so
+  // list the cameras again whenever a stream starts
+  useEffect(() => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
 
     navigator.mediaDevices.enumerateDevices()
       .then(devices => {
         const videoDevices = devices.filter(device => device.kind === 'videoinput');
+        setCameras(videoDevices);
         addDebugMessage(`Found ${videoDevices.length} video devices`);
       })
       .catch(err => {
         addDebugMessage(`Error listing devices: ${err}`);
       });
+  }, [stream]);
+
+  useEffect(() => {
+    autoShutterRef.current = autoCapture ? new AutoShutter(AUTO_CAPTURE_FRAMES, countdownSeconds) : null;
+    setShutterState(null);
+  }, [autoCapture, countdownSeconds]);
+
+  useEffect(() => {
+    const client = analysisClient();
+    const unsubscribe = client.onProgress(setLoadProgress);
+    const preloaded = client.preload();
+    preloaded
+      .then(() => addDebugMessage('Face analysis models loaded'))
+      .catch(error => addDebugMessage(`Model preload failed: ${error}`));
+
+    // Once the models are in, everything the app needs has been fetched
+    // and can be cached for offline use
+    if (offlineSupported()) {
+      setOfflineStatus('preparing');
+      preloaded
+        .then(async () => {
+          const failed = await precacheForOffline(await client.loadedResources());
+          if (failed.length > 0) {
+            addDebugMessage(`Could not cache for offline use: ${failed.join(', ')}`);
+          }
+          setOfflineStatus(failed.length === 0 ? 'ready' : 'failed');
+        })
+        .catch(() => setOfflineStatus('failed'));
+    }
+    return unsubscribe;
   }, []);
 
   useEffect(() => {
@@ -57,11 +302,12 @@ const SelfieAnalyzer = () => {
         }
 
         addDebugMessage('Initializing camera...');
+        const { width, height } = RESOLUTIONS[resolution];
         const newStream = await navigator.mediaDevices.getUserMedia({
           video: { 
-            facingMode: 'user',
-            width: { ideal: 1280 },
-            height: { ideal: 720 }
+            ...(cameraId ? { deviceId: { exact: cameraId } } : { facingMode: 'user' }),
+            width: { ideal: width },
+            height: { ideal: height }
           },
           audio: false
         });
@@ -86,12 +332,16 @@ const SelfieAnalyzer = () => {
         await videoElement.play();
         if (mounted) {
           setStream(newStream);
-          addDebugMessage('Camera initialized successfully');
+          addDebugMessage(`Camera initialized successfully at ${videoElement.videoWidth}x${videoElement.videoHeight}`);
         }
       } catch (error) {
         if (mounted) {
           addDebugMessage(`Camera initialization error: ${error}`);
-          setError('Could not initialize camera. Please ensure permissions are granted and no other app is using the camera.');
+          retryRef.current = null;
+          setError(new FaceAnalysisError(
+            'CAMERA_UNAVAILABLE',
+            'Could not initialize camera. Please ensure permissions are granted and no other app is using the camera.'
+          ));
           setIsCameraOpen(false);
         }
       }
@@ -107,14 +357,103 @@ const SelfieAnalyzer = () => {
         videoElement.srcObject = null;
       }
     };
-  }, [isCameraOpen]);
+  }, [isCameraOpen, cameraId, resolution]);
+
+  useEffect(() => {
+    const asset = DEFAULT_TRY_ON_CATALOG.assets.find(candidate => candidate.id === liveTryOnId);
+    liveTryOnRef.current = null;
+    if (!asset) return;
+
+    let cancelled = false;
+    loadTryOnImage(asset)
+      .then(image => {
+        if (!cancelled) liveTryOnRef.current = { asset, image };
+      })
+      .catch(error => addDebugMessage(`Could not load try-on asset ${asset.id}: ${error}`));
+    return () => {
+      cancelled = true;
+    };
+  }, [liveTryOnId]);
+
+  useEffect(() => {
+    const videoElement = videoRef.current;
+    const canvas = overlayRef.current;
+    if (!isLiveMode || !stream || !videoElement || !canvas) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const tracker = liveTrackerRef.current;
+    tracker.reset();
+
+    const analyzeFrame = async () => {
+      try {
+        await analysisClient().preload();
+        if (cancelled) return;
+
+        if (videoElement.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+          let results: FaceAnalysisResult[] = [];
+          try {
+            results = await analysisClient().analyzeFaces(videoElement);
+          } catch {
+            // A frame without a usable face is normal while the user moves
+          }
+          if (cancelled) return;
+
+          canvas.width = videoElement.videoWidth;
+          canvas.height = videoElement.videoHeight;
+          const previous = tracker.latest()?.primary ?? null;
+          tracker.push(results, videoElement.videoWidth, videoElement.videoHeight);
+          const primary = tracker.latest()?.primary ?? null;
+          const checks = checkAlignment(primary, previous, alignmentGuide(canvas.width, canvas.height));
+          const aligned = checks.every(check => check.ok);
+          drawLiveOverlay(canvas, results, primary, liveTryOnRef.current, aligned);
+          setLiveStatus(tracker.snapshot());
+          setAlignment(checks);
+
+          const shutter = autoShutterRef.current;
+          if (shutter) {
+            const state = shutter.push(aligned);
+            setShutterState(state);
+            if (state.phase === 'capture') {
+              addDebugMessage('Auto-capture: face aligned');
+              captureImageRef.current();
+              return;
+            }
+          }
+        }
+      } catch (error) {
+        if (!cancelled) {
+          addDebugMessage(`Live analysis error: ${error}`);
+          setIsLiveMode(false);
+        }
+        return;
+      }
+
+      if (!cancelled) {
+        timer = setTimeout(analyzeFrame, LIVE_INTERVAL_MS);
+      }
+    };
+
+    analyzeFrame();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      tracker.reset();
+      autoShutterRef.current?.reset();
+      setLiveStatus(null);
+      setAlignment(null);
+      setShutterState(null);
+      canvas.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    };
+  }, [isLiveMode, stream]);
 
   const startCamera = () => {
     addDebugMessage('Starting camera...');
     setIsCameraOpen(true);
   };
 
-  const resetAll = (clearImage = false) => {
+  const closeCamera = () => {
     const videoElement = videoRef.current;
     if (videoElement?.srcObject) {
       const currentStream = videoElement.srcObject as MediaStream;
@@ -122,22 +461,59 @@ const SelfieAnalyzer = () => {
       videoElement.srcObject = null;
     }
     setStream(null);
+    setIsCameraOpen(false);
+  };
+
+  const resetAll = (clearImage = false) => {
+    closeCamera();
     if (clearImage) {
       setImage(null);
+      setAnalysisImage(null);
+      setPhotoSet(null);
+      setConsensus(null);
     }
-    setAnalysis(null);
+    setFaces([]);
+    setSelectedFace(0);
+    setImageSize(null);
     setError(null);
-    setIsCameraOpen(false);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
     addDebugMessage('Reset completed');
   };
 
+  const recover = (action: RecoveryAction) => {
+    switch (action) {
+      case 'startOver':
+        // While collecting a set, the photo at fault can be swapped out there
+        if (photoSet && !image) setError(null);
+        else resetAll(true);
+        break;
+      case 'retry':
+        setError(null);
+        retryRef.current?.();
+        break;
+      case 'reload':
+        window.location.reload();
+        break;
+      case 'dismiss':
+        setError(null);
+        break;
+    }
+  };
+
+  const addToSet = (photo: SetPhoto) => {
+    setPhotoSet(prev => prev && prev.length < MAX_CONSENSUS_PHOTOS ? [...prev, photo] : prev);
+  };
+
+  const removeFromSet = (index: number) => {
+    setPhotoSet(prev => prev && prev.filter((_, position) => position !== index));
+  };
+
   const captureImage = () => {
     const videoElement = videoRef.current;
     if (!videoElement) {
-      setError('Video stream not available');
+      showError(new FaceAnalysisError('CAMERA_UNAVAILABLE', 'Video stream not available.'));
       return;
     }
 
@@ -151,76 +527,239 @@ const SelfieAnalyzer = () => {
         throw new Error('Could not get canvas context');
       }
 
-      // First draw the video frame
+      // One draw, flipped when the preview is, so the photo matches what
+      // the user saw
+      if (mirrorPreview) {
+        ctx.translate(canvas.width, 0);
+        ctx.scale(-1, 1);
+      }
       ctx.drawImage(videoElement, 0, 0);
-      
-      // For mirrored image, do a second draw with flip
-      ctx.save();
-      ctx.scale(-1, 1);
-      ctx.drawImage(videoElement, -canvas.width, 0);
-      ctx.restore();
-      
+
       const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
-      setImage(dataUrl);
       addDebugMessage('Image captured successfully');
-      
-      setIsCameraOpen(false);
-      if (videoElement.srcObject) {
-        const currentStream = videoElement.srcObject as MediaStream;
-        currentStream.getTracks().forEach(track => track.stop());
-        videoElement.srcObject = null;
+
+      // Reuse a settled live result rather than analyzing the capture again.
+      // Live frames are unmirrored, so flip them along with a mirrored capture.
+      const stableFrame = isLiveMode && !photoSet ? liveTrackerRef.current.stableFrame() : null;
+      if (photoSet) {
+        addToSet({ url: dataUrl, analysis: { url: dataUrl, scale: 1 } });
+      } else {
+        setImage(dataUrl);
+        setAnalysisImage(null);
+      }
+      if (stableFrame) {
+        const results = mirrorPreview
+          ? stableFrame.results.map(result => mirrorAnalysisResult(result, stableFrame.width))
+          : stableFrame.results;
+        setImageSize({ width: stableFrame.width, height: stableFrame.height });
+        const primary = stableFrame.primary ? stableFrame.results.indexOf(stableFrame.primary) : 0;
+        setFaces(results);
+        setSelectedFace(primary);
+        recordAnalysis(dataUrl, results[primary]);
+        addDebugMessage('Using stable live analysis for captured image');
       }
-      setStream(null);
+
+      closeCamera();
     } catch (error) {
       console.error('Capture error:', error);
-      setError('Failed to capture image. Please try again.');
+      showError(new FaceAnalysisError('INTERNAL_ERROR', 'Failed to capture image. Please try again.'), captureImage);
       addDebugMessage('Error capturing image');
     }
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+  captureImageRef.current = captureImage;
+
+  const ingestFile = async (file: Blob) => {
+    setIsPreparing(true);
+    setError(null);
+    try {
+      const ingested = await ingestImage(file);
+      const analysisCopy = { url: ingested.analysisUrl, scale: ingested.scale };
+      if (photoSet) {
+        addToSet({ url: ingested.displayUrl, analysis: analysisCopy });
+      } else {
+        setImage(ingested.displayUrl);
+        setAnalysisImage(analysisCopy);
+      }
+      addDebugMessage(`Photo prepared: ${ingested.width}x${ingested.height}, analyzing at 1/${ingested.scale.toFixed(2)}`);
+    } catch (error) {
+      addDebugMessage(`Could not open photo: ${error}`);
+      showError(toFaceAnalysisError(error, 'CORRUPT_IMAGE', 'This image could not be opened. Please try another photo.'));
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  ingestFileRef.current = ingestFile;
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const input = event.target;
+    // A set takes several at once, up to the photos it still has room for
+    const room = photoSet ? MAX_CONSENSUS_PHOTOS - photoSet.length : 1;
+    for (const file of Array.from(input.files ?? []).slice(0, room)) {
+      await ingestFile(file);
+    }
+    if (photoSet) {
+      input.value = '';
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const file = event.dataTransfer.files[0];
     if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        setImage(e.target?.result as string);
-        addDebugMessage('File uploaded successfully');
-      };
-      reader.readAsDataURL(file);
+      ingestFile(file);
+    }
+  };
+
+  const openReport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const report = parseReport(JSON.parse(await file.text()));
+      const img = await loadImage(report.image);
+      setImage(report.image);
+      setAnalysisImage(null);
+      setImageSize({ width: img.width, height: img.height });
+      setFaces([report.result]);
+      setSelectedFace(0);
+      setError(null);
+      addDebugMessage(`Opened report from ${report.createdAt} (app v${report.appVersion})`);
+    } catch (error) {
+      showError(toFaceAnalysisError(error, 'INVALID_RESULT', 'This file is not a selfie analysis report.'));
     }
   };
 
+  const saveReport = async (format: 'pdf' | 'png' | 'json') => {
+    if (!image || !analysis) return;
+    try {
+      const report = createReport(image, analysis);
+      const blob = format === 'pdf'
+        ? await reportToPdf(report)
+        : format === 'png' ? await reportToCard(report) : reportToJson(report);
+      downloadBlob(blob, `selfie-analysis-${report.createdAt.slice(0, 10)}.${format}`);
+    } catch (error) {
+      addDebugMessage(`Could not create ${format} report: ${error}`);
+      showError(
+        new FaceAnalysisError('INTERNAL_ERROR', 'Could not create the report. Please try again.'),
+        () => saveReport(format)
+      );
+    }
+  };
+
+  // Every face in a photo, found on the smaller copy and positioned on the
+  // photo that is shown
+  const analyzePhoto = async (source: { url: string; scale: number }) => {
+    const img = await loadImage(source.url);
+    const results = (await analysisClient().analyzeFaces(img))
+      .map(result => scaleAnalysisResult(result, source.scale));
+    const width = img.width * source.scale;
+    const height = img.height * source.scale;
+    const primary = primaryFaceIndex(results.map(result => result.box), width, height);
+    return { results, primary, width, height };
+  };
+
   const analyzeImage = async () => {
     setIsProcessing(true);
     setError(null);
 
     try {
-      addDebugMessage('Initializing face analysis...');
-      const analysisService = new FaceAnalysisService();
-      await analysisService.initialize();
-      addDebugMessage('Face detection model loaded');
-
-      const img = new Image();
-      img.src = image!;
-      await new Promise((resolve, reject) => {
-        img.onload = resolve;
-        img.onerror = reject;
+      addDebugMessage('Waiting for face analysis models...');
+      await analysisClient().preload();
+
+      const { results, primary, width, height } = await analyzePhoto(analysisImage ?? { url: image!, scale: 1 });
+      addDebugMessage(`Found ${results.length} face(s) on ${results[0].backend}, defaulting to face ${primary + 1}`);
+
+      results.forEach((result, index) => {
+        addDebugMessage(`Face ${index + 1} - Face Shape: ${result.faceShape}, Skin Tone: ${result.skinTone}`);
       });
-      addDebugMessage('Image prepared for analysis');
+      const result = results[primary];
+      addDebugMessage(`Quality: ${result.quality.status} (${result.quality.checks
+        .map(check => `${check.name}=${check.status}`)
+        .join(', ')})`);
+      if (result.pose) {
+        addDebugMessage(`Head pose: roll ${result.pose.roll.toFixed(1)}°, yaw ${result.pose.yaw.toFixed(1)}°, pitch ${result.pose.pitch.toFixed(1)}°`);
+      }
+      addDebugMessage(`Measurement methods: ${Object.entries(result.measurements.methods)
+        .map(([name, method]) => `${name}=${method}`)
+        .join(', ')}`);
+      addDebugMessage(`Skin sample - ITA: ${result.skinToneDetails.ita.toFixed(1)}°, hue: ${result.skinToneDetails.hueAngle.toFixed(1)}°, regions used: ${result.skinToneDetails.regions
+        .map(region => `${region.name} ${region.keptPixels}/${region.pixelCount}`)
+        .join(', ')}`);
+      const { lighting, skinToneDetails: { uncorrected } } = result;
+      if (lighting) {
+        addDebugMessage(`White balance: ${lighting.method}, ${lighting.cast} cast (${lighting.castStrength.toFixed(1)}), gains ${[lighting.gains.r, lighting.gains.g, lighting.gains.b]
+          .map(gain => gain.toFixed(2))
+          .join('/')}, lighting score ${lighting.score}`);
+      }
+      addDebugMessage(uncorrected
+        ? `Before correction - ${skinToneLabel(uncorrected)}, ITA: ${uncorrected.ita.toFixed(1)}°, hue: ${uncorrected.hueAngle.toFixed(1)}°`
+        : 'Before correction - skin colors out of range');
+
+      setImageSize({ width, height });
+      setFaces(results);
+      setSelectedFace(primary);
+      recordAnalysis(image!, result);
+
+    } catch (error) {
+      console.error('Analysis error:', error);
+      showError(
+        toFaceAnalysisError(error, 'INTERNAL_ERROR', 'Failed to analyze image. Please ensure your face is clearly visible and try again.'),
+        analyzeImage
+      );
+      addDebugMessage(`Analysis error: ${(error as Error).message}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
 
-      const result = await analysisService.analyzeFace(img);
-      addDebugMessage(`Analysis complete - Face Shape: ${result.faceShape}, Skin Tone: ${result.skinTone}`);
+  const analyzeSet = async () => {
+    if (!photoSet) return;
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      addDebugMessage(`Analyzing a set of ${photoSet.length} photos...`);
+      await analysisClient().preload();
+
+      const analyzed = [];
+      for (const [index, photo] of photoSet.entries()) {
+        try {
+          analyzed.push(await analyzePhoto(photo.analysis));
+        } catch (error) {
+          const cause = toFaceAnalysisError(error, 'INTERNAL_ERROR', 'It could not be analyzed.');
+          throw new FaceAnalysisError(cause.code, `Photo ${index + 1}: ${cause.message} Remove or replace it to continue.`);
+        }
+      }
 
-      setAnalysis({
-        faceShape: result.faceShape,
-        skinTone: result.skinTone,
-        recommendations: result.recommendations
+      const combined = combineAnalyses(analyzed.map(({ results, primary }) => results[primary]));
+      combined.photos.forEach((photo, index) => {
+        addDebugMessage(`Photo ${index + 1} - ${photo.faceShape}, ${photo.skinTone}, ratio deviation ${photo.ratioDeviation.toFixed(1)}, tone ΔE ${photo.toneDifference.toFixed(1)}${photo.used ? '' : ', left out'}`);
       });
+      addDebugMessage(`Consensus: ${combined.result.faceShape} (${Math.round(combined.shapeAgreement * 100)}% agree), ${combined.result.skinTone} (${Math.round(combined.toneAgreement * 100)}% agree)`);
 
-    } catch (error: any) {
+      const base = analyzed[combined.base];
+      const baseUrl = photoSet[combined.base].url;
+      setImage(baseUrl);
+      setAnalysisImage(null);
+      setImageSize({ width: base.width, height: base.height });
+      setFaces([combined.result]);
+      setSelectedFace(0);
+      setConsensus({ analysis: combined, photos: photoSet.map(photo => photo.url) });
+      recordAnalysis(baseUrl, combined.result);
+    } catch (error) {
       console.error('Analysis error:', error);
-      setError(error.message || 'Failed to analyze image. Please ensure your face is clearly visible and try again.');
-      addDebugMessage(`Analysis error: ${error.message}`);
+      showError(
+        toFaceAnalysisError(error, 'INTERNAL_ERROR', 'Failed to analyze the photos. Please try again.'),
+        analyzeSet
+      );
+      addDebugMessage(`Analysis error: ${(error as Error).message}`);
     } finally {
       setIsProcessing(false);
     }
@@ -229,6 +768,25 @@ const SelfieAnalyzer = () => {
   return (
     <div className="w-full max-w-md mx-auto bg-white rounded-lg shadow-lg p-6">
       <h2 className="text-2xl font-bold text-center mb-6">Selfie Analysis</h2>
+
+      {offlineStatus !== 'unsupported' && (
+        <p className={`-mt-4 mb-4 text-center text-xs ${offlineStatus === 'ready'
+          ? 'text-green-600'
+          : offlineStatus === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+          {offlineStatus === 'ready' && '● Ready to use offline'}
+          {offlineStatus === 'preparing' && 'Preparing offline use...'}
+          {offlineStatus === 'failed' && 'Offline use unavailable, an internet connection is needed'}
+        </p>
+      )}
+
+      {loadProgress && loadProgress.stage !== 'ready' && (
+        <div className="mb-4 text-sm text-gray-600">
+          <p>Loading face models... {Math.round(loadProgress.fraction * 100)}%</p>
+          <div className="mt-1 h-1 w-full bg-gray-100 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-500" style={{ width: `${loadProgress.fraction * 100}%` }} />
+          </div>
+        </div>
+      )}
       
       <div className="mb-4 p-2 bg-gray-100 rounded text-xs overflow-auto max-h-32">
         <p className="font-bold">Debug Info:</p>
@@ -237,15 +795,42 @@ const SelfieAnalyzer = () => {
         ))}
       </div>
 
-      {error && (
-        <div className="bg-red-50 text-red-700 p-4 rounded-lg mb-4">
-          <p className="font-semibold">Error</p>
-          <p>{error}</p>
+      {!isCameraOpen && (
+        <div className="mb-4 text-right">
+          <button onClick={() => setIsHistoryOpen(true)} className="text-sm text-blue-600 hover:underline">
+            History ({history.length})
+          </button>
         </div>
       )}
 
-      {!image && !isCameraOpen && (
-        <div className="space-y-4">
+      {isHistoryOpen && (
+        <div className="fixed inset-0 z-10 bg-black/40 flex items-center justify-center p-4">
+          <div className="w-full max-w-md max-h-[90vh] overflow-auto bg-white rounded-lg shadow-lg p-6">
+            <HistoryPanel
+              entries={history}
+              onDelete={removeHistoryEntry}
+              onClear={clearAllHistory}
+              onExport={downloadHistory}
+              onClose={() => setIsHistoryOpen(false)}
+            />
+          </div>
+        </div>
+      )}
+
+      {error && <ErrorNotice error={error} canRetry={retryRef.current !== null} onAction={recover} />}
+
+      {!image && !isCameraOpen && !photoSet && (
+        <div
+          onDragOver={(event) => {
+            event.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`space-y-4 rounded-lg border-2 border-dashed p-3 transition-colors ${isDragging
+            ? 'border-blue-400 bg-blue-50'
+            : 'border-transparent'}`}
+        >
           <button 
             onClick={startCamera}
             className="w-full bg-blue-500 text-white py-2 px-4 rounded-lg hover:bg-blue-600 transition-colors flex items-center justify-center gap-2"
@@ -256,9 +841,10 @@ const SelfieAnalyzer = () => {
           <div className="text-center text-gray-500">or</div>
           <input
             type="file"
-            accept="image/*"
+            accept="image/*,.heic,.heif"
             onChange={handleFileUpload}
             ref={fileInputRef}
+            disabled={isPreparing}
             className="w-full text-sm text-gray-500
               file:mr-4 file:py-2 file:px-4
               file:rounded-lg file:border-0
@@ -266,6 +852,93 @@ const SelfieAnalyzer = () => {
               file:bg-blue-50 file:text-blue-700
               hover:file:bg-blue-100"
           />
+          <p className="text-center text-xs text-gray-500">
+            {isPreparing ? 'Preparing photo...' : 'You can also drop a photo here or paste one'}
+          </p>
+          <label className="block text-center text-sm text-blue-600 hover:underline cursor-pointer">
+            Open a saved report
+            <input type="file" accept="application/json,.json" onChange={openReport} className="hidden" />
+          </label>
+          <button
+            onClick={() => setPhotoSet([])}
+            className="block w-full text-center text-sm text-blue-600 hover:underline"
+          >
+            Combine {MIN_CONSENSUS_PHOTOS}–{MAX_CONSENSUS_PHOTOS} photos for a steadier result
+          </button>
+        </div>
+      )}
+
+      {photoSet && !image && !isCameraOpen && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Add {MIN_CONSENSUS_PHOTOS}–{MAX_CONSENSUS_PHOTOS} photos of the same face, looking straight ahead, ideally in
+            slightly different light. They are analyzed together and combined into one result.
+          </p>
+          {photoSet.length > 0 && (
+            <div className="grid grid-cols-3 gap-2">
+              {photoSet.map((photo, index) => (
+                <div key={index} className="relative aspect-square rounded-lg overflow-hidden bg-gray-100">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={photo.url} alt={`Photo ${index + 1}`} className="w-full h-full object-cover" />
+                  <button
+                    onClick={() => removeFromSet(index)}
+                    aria-label={`Remove photo ${index + 1}`}
+                    disabled={isProcessing}
+                    className="absolute top-1 right-1 h-6 w-6 rounded-full bg-white/90 text-xs text-gray-700 hover:bg-white"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          {photoSet.length < MAX_CONSENSUS_PHOTOS && (
+            <div className="flex gap-2">
+              <button
+                onClick={startCamera}
+                disabled={isProcessing}
+                className="flex-1 bg-blue-500 text-white py-2 px-4 rounded-lg hover:bg-blue-600 transition-colors flex items-center justify-center gap-2"
+              >
+                <Camera className="h-4 w-4" />
+                Take Photo
+              </button>
+              <label className="flex-1 text-center py-2 px-4 rounded-lg bg-blue-50 text-blue-700 font-semibold text-sm hover:bg-blue-100 cursor-pointer">
+                Add Photos
+                <input
+                  type="file"
+                  accept="image/*,.heic,.heif"
+                  multiple
+                  onChange={handleFileUpload}
+                  disabled={isPreparing || isProcessing}
+                  className="hidden"
+                />
+              </label>
+            </div>
+          )}
+          <p className="text-center text-xs text-gray-500">
+            {isPreparing
+              ? 'Preparing photo...'
+              : `${photoSet.length} of ${MAX_CONSENSUS_PHOTOS} photos · you can also paste one`}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => resetAll(true)}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={analyzeSet}
+              className="flex-1 bg-blue-500 text-white py-2 px-4 rounded-lg hover:bg-blue-600 transition-colors disabled:bg-blue-300"
+              disabled={isProcessing || isPreparing || photoSet.length < MIN_CONSENSUS_PHOTOS}
+            >
+              {isProcessing
+                ? 'Analyzing...'
+                : photoSet.length < MIN_CONSENSUS_PHOTOS
+                  ? `Add ${MIN_CONSENSUS_PHOTOS - photoSet.length} more`
+                  : `Analyze ${photoSet.length} Photos`}
+            </button>
+          </div>
         </div>
       )}
 
@@ -277,16 +950,144 @@ const SelfieAnalyzer = () => {
               autoPlay
               playsInline
               muted
-              style={{ transform: 'scaleX(-1)' }}
+              style={{ transform: mirrorPreview ? 'scaleX(-1)' : undefined }}
               className="absolute top-0 left-0 w-full h-full object-cover"
             />
+            {isLiveMode && (
+              <canvas
+                ref={overlayRef}
+                style={{ transform: mirrorPreview ? 'scaleX(-1)' : undefined }}
+                className="absolute top-0 left-0 w-full h-full object-cover pointer-events-none"
+              />
+            )}
+            {isLiveMode && liveStatus && (
+              <div className="absolute top-2 left-2 bg-white/90 px-2 py-1 rounded text-xs">
+                {!liveStatus.faceFound && 'Looking for a face...'}
+                {liveStatus.faceFound && liveStatus.faceShape && (
+                  <>
+                    {liveStatus.faceShape} · {liveStatus.skinTone}
+                    <span className={liveStatus.settled ? 'text-green-600' : 'text-gray-500'}>
+                      {liveStatus.settled ? ' · Stable' : ` · Settling ${Math.round(liveStatus.agreement * 100)}%`}
+                    </span>
+                  </>
+                )}
+              </div>
+            )}
+            {shutterState?.phase === 'countdown' && (
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                <span className="text-7xl font-bold text-white drop-shadow-lg">{shutterState.secondsLeft}</span>
+              </div>
+            )}
             <div className="absolute bottom-2 right-2 bg-white px-2 py-1 rounded text-xs">
               {stream ? 'Camera Active' : 'Starting Camera...'}
             </div>
           </div>
+          {isLiveMode && alignment && (
+            <ul className="flex flex-wrap gap-2 text-xs">
+              {alignment.map(check => (
+                <li
+                  key={check.name}
+                  className={`px-2 py-1 rounded-full ${check.ok ? 'bg-green-50 text-green-700' : 'bg-gray-100 text-gray-700'}`}
+                >
+                  {check.ok ? '✓' : '•'} {check.message}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex gap-2 text-sm text-gray-700">
+            <label className="flex flex-1 items-center gap-2">
+              Camera
+              <select
+                value={cameraId}
+                onChange={(event) => setCameraId(event.target.value)}
+                className="flex-1 min-w-0 border border-gray-300 rounded-lg px-2 py-1"
+              >
+                <option value="">Front (default)</option>
+                {cameras.filter(camera => camera.deviceId).map((camera, index) => (
+                  <option key={camera.deviceId} value={camera.deviceId}>
+                    {camera.label || `Camera ${index + 1}`}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <select
+              value={resolution}
+              onChange={(event) => setResolution(event.target.value as Resolution)}
+              aria-label="Resolution"
+              className="border border-gray-300 rounded-lg px-2 py-1"
+            >
+              {(Object.keys(RESOLUTIONS) as Resolution[]).map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={mirrorPreview}
+                onChange={(event) => setMirrorPreview(event.target.checked)}
+              />
+              Mirror
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={isLiveMode}
+                onChange={(event) => setIsLiveMode(event.target.checked)}
+              />
+              Live analysis
+            </label>
+            {isLiveMode && (
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={autoCapture}
+                  onChange={(event) => setAutoCapture(event.target.checked)}
+                />
+                Auto-capture when aligned
+              </label>
+            )}
+            {isLiveMode && autoCapture && (
+              <label className="flex items-center gap-2">
+                Countdown
+                <select
+                  value={countdownSeconds}
+                  onChange={(event) => setCountdownSeconds(Number(event.target.value))}
+                  className="border border-gray-300 rounded-lg px-2 py-1"
+                >
+                  <option value={0}>Off</option>
+                  <option value={3}>3s</option>
+                  <option value={5}>5s</option>
+                </select>
+              </label>
+            )}
+          </div>
+          {isLiveMode && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Try on
+              <select
+                value={liveTryOnId}
+                onChange={(event) => setLiveTryOnId(event.target.value)}
+                className="flex-1 border border-gray-300 rounded-lg px-2 py-1"
+              >
+                <option value="">Nothing</option>
+                {TRY_ON_KINDS.map(kind => (
+                  <optgroup key={kind} label={TRY_ON_KIND_LABELS[kind]}>
+                    {/* Catalog order, so the list doesn't reshuffle as the live shape changes */}
+                    {tryOnAssetsFor(kind, null).map(asset => (
+                      <option key={asset.id} value={asset.id}>
+                        {asset.name}{suitsFaceShape(asset, liveStatus?.faceShape) ? ' ★' : ''}
+                      </option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+            </label>
+          )}
           <div className="flex gap-2">
             <button 
-              onClick={() => resetAll(true)}
+              onClick={() => photoSet ? closeCamera() : resetAll(true)}
               className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
             >
               Cancel
@@ -327,46 +1128,156 @@ const SelfieAnalyzer = () => {
               {isProcessing ? 'Analyzing...' : 'Analyze Selfie'}
             </button>
           </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={requireGoodQuality}
+              onChange={(event) => setRequireGoodQuality(event.target.checked)}
+            />
+            Only show results for good-quality photos
+          </label>
         </div>
       )}
 
       {analysis && (
         <div className="space-y-4">
-          <div className="flex gap-4">
-            <div className="w-1/3 aspect-video relative rounded-lg overflow-hidden">
-              {/* eslint-disable-next-line @next/next/no-img-element */}
-              <img 
-                src={image!}
-                alt="Analyzed selfie"
-                className="w-full h-full object-contain"
-              />
-            </div>
+          {faces.length > 1 && imageSize && (
             <div>
-              <h3 className="font-semibold text-lg">Analysis Results:</h3>
-              <p className="text-gray-600">Face Shape: <span className="text-gray-900">{analysis.faceShape}</span></p>
-              <p className="text-gray-600">Skin Tone: <span className="text-gray-900">{analysis.skinTone}</span></p>
+              <p className="text-sm text-gray-600 mb-2">
+                We found {faces.length} faces. Tap a face to see its analysis.
+              </p>
+              <div className="relative w-full rounded-lg overflow-hidden">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={image!}
+                  alt="Detected faces"
+                  className="w-full h-auto block"
+                />
+                {faces.map((face, index) => (
+                  <button
+                    key={index}
+                    onClick={() => setSelectedFace(index)}
+                    aria-label={`Show analysis for face ${index + 1}`}
+                    aria-pressed={index === selectedFace}
+                    className={`absolute border-2 rounded ${index === selectedFace
+                      ? 'border-blue-500 bg-blue-500/20'
+                      : 'border-white/80 hover:border-blue-300'}`}
+                    style={{
+                      left: `${(face.box.xMin / imageSize.width) * 100}%`,
+                      top: `${(face.box.yMin / imageSize.height) * 100}%`,
+                      width: `${(face.box.width / imageSize.width) * 100}%`,
+                      height: `${(face.box.height / imageSize.height) * 100}%`
+                    }}
+                  >
+                    <span className="absolute -top-5 left-0 bg-white px-1 rounded text-xs text-gray-900">
+                      {index + 1}
+                    </span>
+                  </button>
+                ))}
+              </div>
             </div>
-          </div>
+          )}
+
+          {consensus && <ConsensusSummary consensus={consensus.analysis} photos={consensus.photos} />}
+
+          <QualityFeedback report={analysis.quality} blocked={isQualityBlocked} />
+
+          {!isQualityBlocked && (
+            <>
+              <div className="flex gap-2 text-sm">
+                {(['annotated', 'tryOn'] as const).map(view => (
+                  <button
+                    key={view}
+                    onClick={() => setResultView(view)}
+                    className={`px-3 py-1 rounded-lg border transition-colors ${resultView === view
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-300 hover:bg-gray-50'}`}
+                  >
+                    {view === 'annotated' ? 'Analysis' : 'Try on'}
+                  </button>
+                ))}
+              </div>
+              {resultView === 'annotated'
+                ? <AnnotatedImage src={image!} analysis={analysis} />
+                : <TryOn src={image!} analysis={analysis} />}
+
+              <div className="flex gap-4">
+                <div>
+                  <h3 className="font-semibold text-lg">
+                    {faces.length > 1 ? `Face ${selectedFace + 1} Results:` : 'Analysis Results:'}
+                  </h3>
+                  <FaceShapeScores details={analysis.faceShapeDetails} />
+                  <p className="text-gray-600 flex items-center gap-2">
+                    Skin Tone: <span className="text-gray-900">{analysis.skinTone}</span>
+                    <span
+                      className="inline-block h-4 w-4 rounded-full border border-gray-300"
+                      style={{
+                        backgroundColor: `rgb(${analysis.skinToneDetails.rgb.r}, ${analysis.skinToneDetails.rgb.g}, ${analysis.skinToneDetails.rgb.b})`
+                      }}
+                    />
+                  </p>
+                  <p className="text-gray-600 text-sm">
+                    Fitzpatrick {analysis.skinToneDetails.fitzpatrick} · {analysis.skinToneDetails.undertone} undertone
+                  </p>
+                  {/* Missing from results saved before white balance correction existed */}
+                  {analysis.lighting && (
+                    <p className="text-gray-600 text-sm">
+                      Lighting {analysis.lighting.score}/100 · {analysis.lighting.message}
+                    </p>
+                  )}
+                </div>
+              </div>
           
-          <div>
-            <h3 className="font-semibold text-lg mb-2">Recommendations:</h3>
-            <ul className="space-y-2">
-              {analysis.recommendations.map((rec, index) => (
-                <li 
-                  key={index}
-                  className="p-3 bg-gray-50 rounded-lg text-gray-700"
-                >
-                  {rec}
-                </li>
-              ))}
-            </ul>
-          </div>
+              {/* Only read from the face mesh */}
+              {analysis.features && <FeatureSummary features={analysis.features} />}
+
+              {/* Results saved before color analysis existed don't have one */}
+              {analysis.colorAnalysis && <SeasonalPalette analysis={analysis.colorAnalysis} />}
+
+              <div>
+                <h3 className="font-semibold text-lg mb-2">Recommendations:</h3>
+                <div className="space-y-4">
+                  {groupByCategory(analysis.recommendations).map(group => (
+                    <div key={group.category}>
+                      <h4 className="font-medium text-gray-900 mb-2">{CATEGORY_LABELS[group.category]}</h4>
+                      <ul className="space-y-2">
+                        {group.items.map(rec => (
+                          <li 
+                            key={rec.id}
+                            className="p-3 bg-gray-50 rounded-lg text-gray-700"
+                          >
+                            <p>{rec.text}</p>
+                            <p className="text-xs text-gray-500 mt-1">{rec.rationale}</p>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <ProductGrid analysis={analysis} />
+
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-gray-600">Save report:</span>
+                {(['pdf', 'png', 'json'] as const).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => saveReport(format)}
+                    className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    {format === 'pdf' ? 'PDF' : format === 'png' ? 'Card' : 'JSON'}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
 
           <button 
             onClick={() => resetAll(true)}
             className="w-full border border-gray-300 py-2 px-4 rounded-lg hover:bg-gray-50 transition-colors mt-4"
           >
-            Try Another Photo
+            {isQualityBlocked ? 'Retake Photo' : 'Try Another Photo'}
           </button>
         </div>
       )}
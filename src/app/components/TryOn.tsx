@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { FaceAnalysisResult } from '@/services/faceAnalysis';
+import {
+  DEFAULT_TRY_ON_CATALOG,
+  TRY_ON_KINDS,
+  TRY_ON_KIND_LABELS,
+  TryOnAsset,
+  TryOnKind,
+  drawTryOnAsset,
+  loadTryOnImage,
+  suitsFaceShape,
+  tryOnAssetsFor
+} from '@/services/tryOn';
+
+interface TryOnProps {
+  src: string;
+  analysis: Pick<FaceAnalysisResult, 'anchors' | 'faceShape'>;
+}
+
+// Fringes go on first so frames and earrings sit on top
+const DRAW_ORDER: TryOnKind[] = ['bangs', 'earrings', 'eyewear'];
+
+const TryOn = ({ src, analysis }: TryOnProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [photo, setPhoto] = useState<HTMLImageElement | null>(null);
+  // At most one asset of each kind, by id
+  const [selected, setSelected] = useState<Partial<Record<TryOnKind, string>>>({});
+  const [onlySuited, setOnlySuited] = useState(false);
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setPhoto(img);
+    img.src = src;
+    return () => {
+      img.onload = null;
+    };
+  }, [src]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!photo || !canvas) return;
+
+    let cancelled = false;
+    const assets = DRAW_ORDER
+      .map(kind => DEFAULT_TRY_ON_CATALOG.assets.find(asset => asset.id === selected[kind]))
+      .filter((asset): asset is TryOnAsset => asset !== undefined);
+
+    Promise.all(assets.map(loadTryOnImage))
+      .then(images => {
+        const ctx = canvas.getContext('2d');
+        if (cancelled || !ctx) return;
+        canvas.width = photo.naturalWidth;
+        canvas.height = photo.naturalHeight;
+        ctx.drawImage(photo, 0, 0);
+        assets.forEach((asset, index) => drawTryOnAsset(ctx, asset, images[index], analysis.anchors));
+      })
+      .catch(error => console.error('Could not load try-on asset:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [photo, selected, analysis]);
+
+  const choose = (kind: TryOnKind, id: string | undefined) => {
+    setSelected(prev => ({ ...prev, [kind]: id }));
+  };
+
+  const optionClass = (active: boolean) => `px-2 py-1 rounded-lg border text-xs transition-colors ${active
+    ? 'border-blue-500 bg-blue-50 text-blue-700'
+    : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`;
+
+  return (
+    <div className="space-y-3">
+      <canvas ref={canvasRef} className="w-full h-auto rounded-lg bg-gray-100" />
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input type="checkbox" checked={onlySuited} onChange={(event) => setOnlySuited(event.target.checked)} />
+        Only styles that suit a {analysis.faceShape} face
+      </label>
+      {TRY_ON_KINDS.map(kind => (
+        <div key={kind}>
+          <p className="text-sm font-medium text-gray-900 mb-1">{TRY_ON_KIND_LABELS[kind]}</p>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => choose(kind, undefined)} className={optionClass(!selected[kind])}>
+              None
+            </button>
+            {tryOnAssetsFor(kind, analysis.faceShape)
+              .filter(asset => !onlySuited || suitsFaceShape(asset, analysis.faceShape))
+              .map(asset => (
+                <button
+                  key={asset.id}
+                  onClick={() => choose(kind, asset.id)}
+                  title={`Suits ${asset.suits.join(', ')} faces`}
+                  className={optionClass(selected[kind] === asset.id)}
+                >
+                  {asset.name}
+                  {suitsFaceShape(asset, analysis.faceShape) && <span className="ml-1 text-green-600">★</span>}
+                </button>
+              ))}
+          </div>
+        </div>
+      ))}
+      <p className="text-xs text-gray-500">★ suits your face shape</p>
+    </div>
+  );
+};
+
+export default TryOn;
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { buildOfflineManifest } from '@/server/offlineManifest';
+
+export const runtime = 'nodejs';
+// Written once at build time, after the client chunks it lists
+export const dynamic = 'force-static';
+
+export async function GET() {
+  return NextResponse.json(await buildOfflineManifest());
+}
@@ -0,0 +1,16 @@
+import assert from 'node:assert/strict';
+import os from 'os';
+import { describe, it } from 'node:test';
+import { FaceAnalysisError } from '@/services/errors';
+
+describe('getServerAnalysisService', () => {
+  it('fails with MODEL_LOAD_FAILED when the weights are missing', async () => {
+    process.env.FACE_MODEL_DIR = os.tmpdir();
+    delete process.env.FACE_MODELS_FROM_TFHUB;
+    const { getServerAnalysisService } = await import('./analysisService');
+    await assert.rejects(
+      getServerAnalysisService(),
+      (error: unknown) => error instanceof FaceAnalysisError && error.code === 'MODEL_LOAD_FAILED'
+    );
+  });
+});
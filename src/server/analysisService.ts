@@ -0,0 +1,78 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import * as tf from '@tensorflow/tfjs';
+import { FaceAnalysisError } from '@/services/errors';
+import { FaceAnalysisService } from '@/services/faceAnalysis';
+
+// Where `npm run fetch-models` puts the weights. The same files are served
+// to the browser from /models.
+const MODEL_DIR = process.env.FACE_MODEL_DIR ?? path.join(process.cwd(), 'public', 'models');
+// Missing weights are an error unless fetching them from TF Hub is allowed
+const TFHUB_FALLBACK = process.env.FACE_MODELS_FROM_TFHUB === 'true';
+
+// Group photos sent to the API can have more people in them than selfies
+const MAX_FACES = 10;
+
+// Loads a tfjs graph model (model.json plus weight shards) from disk. The
+// plain tfjs package only knows how to fetch over HTTP.
+function fileModel(modelJsonPath: string): tf.io.IOHandler {
+  const directory = path.dirname(modelJsonPath);
+
+  return {
+    load: async () => {
+      const modelJson = JSON.parse(await fs.readFile(modelJsonPath, 'utf8')) as tf.io.ModelJSON;
+      return tf.io.getModelArtifactsForJSON(modelJson, async manifest => {
+        const specs = manifest.flatMap(group => group.weights);
+        const shards = await Promise.all(
+          manifest.flatMap(group => group.paths).map(async shard => {
+            const file = await fs.readFile(path.join(directory, shard));
+            return new Uint8Array(file).buffer;
+          })
+        );
+        return [specs, tf.io.concatenateArrayBuffers(shards)];
+      });
+    }
+  };
+}
+
+async function bundledModel(name: string) {
+  const modelJsonPath = path.join(MODEL_DIR, name, 'model.json');
+  try {
+    await fs.access(modelJsonPath);
+    return fileModel(modelJsonPath);
+  } catch {
+    if (TFHUB_FALLBACK) {
+      console.warn(`No bundled weights at ${modelJsonPath}, loading ${name} from TF Hub`);
+      return undefined;
+    }
+    console.error(`No bundled weights at ${modelJsonPath}; run \`npm run fetch-models\` or set FACE_MODELS_FROM_TFHUB=true`);
+    throw new FaceAnalysisError('MODEL_LOAD_FAILED', 'The face analysis models are not installed on the server.');
+  }
+}
+
+let servicePromise: Promise<FaceAnalysisService> | null = null;
+
+// One service per server process; the models take seconds to load
+export function getServerAnalysisService() {
+  if (!servicePromise) {
+    servicePromise = (async () => {
+      const service = new FaceAnalysisService({
+        useLandmarks: true,
+        maxFaces: MAX_FACES,
+        backend: 'cpu',
+        modelUrls: {
+          detector: await bundledModel('face-detection-short'),
+          landmarks: await bundledModel('face-mesh')
+        }
+      });
+      await service.initialize();
+      return service;
+    })();
+
+    // Let the next request try again rather than caching the failure
+    servicePromise.catch(() => {
+      servicePromise = null;
+    });
+  }
+  return servicePromise;
+}
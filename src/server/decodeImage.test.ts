@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { FaceAnalysisError } from '@/services/errors';
+import { decodeImage } from './decodeImage';
+
+const failsWith = (code: string) => (error: unknown) => error instanceof FaceAnalysisError && error.code === code;
+
+// Only the headers of a 10000×8000 image: the size check must not need the rest
+function hugePng() {
+  const header = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+  header.writeUInt32BE(13, 8);
+  header.write('IHDR', 12, 'latin1');
+  header.writeUInt32BE(10000, 16);
+  header.writeUInt32BE(8000, 20);
+  header.set([8, 6, 0, 0, 0], 24);
+  return header;
+}
+
+function hugeJpeg() {
+  return Buffer.from([
+    0xff, 0xd8,
+    // An APP0 segment to step over first
+    0xff, 0xe0, 0x00, 0x04, 0x00, 0x00,
+    // Baseline frame header: precision, height 8000, width 10000, 1 component
+    0xff, 0xc0, 0x00, 0x0b, 0x08, 0x1f, 0x40, 0x27, 0x10, 0x01, 0x01, 0x11, 0x00
+  ]);
+}
+
+describe('decodeImage', () => {
+  it('refuses an oversized PNG from its header', () => {
+    assert.throws(() => decodeImage(hugePng()), failsWith('IMAGE_TOO_LARGE'));
+  });
+
+  it('refuses an oversized JPEG from its header', () => {
+    assert.throws(() => decodeImage(hugeJpeg()), failsWith('IMAGE_TOO_LARGE'));
+  });
+
+  it('decodes small images of both formats', () => {
+    const png = new PNG({ width: 3, height: 2 });
+    png.data.fill(200);
+    const fromPng = decodeImage(PNG.sync.write(png));
+    assert.deepEqual([fromPng.width, fromPng.height], [3, 2]);
+
+    const rgba = Buffer.alloc(4 * 5 * 4, 200);
+    const fromJpeg = decodeImage(Buffer.from(jpeg.encode({ data: rgba, width: 4, height: 5 }, 90).data));
+    assert.deepEqual([fromJpeg.width, fromJpeg.height], [4, 5]);
+  });
+
+  it('reports truncated images as corrupt', () => {
+    const png = PNG.sync.write(new PNG({ width: 3, height: 2 }));
+    assert.throws(() => decodeImage(png.subarray(0, 40)), failsWith('CORRUPT_IMAGE'));
+  });
+});
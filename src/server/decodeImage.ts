@@ -0,0 +1,76 @@
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { FaceAnalysisError } from '@/services/errors';
+import { isJpeg, orientPixels, readJpegOrientation } from '@/services/exif';
+import type { PixelData } from '@/services/pixels';
+
+// Refuse to decode anything bigger than a high-end phone photo
+const MAX_MEGAPIXELS = 50;
+
+const isPng = (buffer: Buffer) => buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+
+// The stored width and height from the header, read without decoding:
+// the IHDR chunk of a PNG, the start-of-frame segment of a JPEG. Null when
+// the header can't be read, which decoding then reports.
+function readImageSize(buffer: Buffer): { width: number; height: number } | null {
+  if (isPng(buffer)) {
+    // IHDR is always the first chunk, right after the signature
+    if (buffer.length < 24 || buffer.toString('latin1', 12, 16) !== 'IHDR') return null;
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+
+  let offset = 2;
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    // Padding before a marker
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // Start of scan: image data follows, and the frame header came before it
+    if (marker === 0xda) return null;
+    // Start of frame, in any of its coding variants (C4, C8 and CC are
+    // other segments)
+    const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isFrame) {
+      if (offset + 9 > buffer.length) return null;
+      return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+// Decodes an uploaded JPEG or PNG into upright RGBA pixels without any
+// DOM APIs. Images over MAX_MEGAPIXELS are refused from their header,
+// before any memory is spent decoding them.
+export function decodeImage(buffer: Buffer): PixelData {
+  if (!isJpeg(buffer) && !isPng(buffer)) {
+    throw new FaceAnalysisError('UNSUPPORTED_IMAGE', 'Only JPEG and PNG images are supported.');
+  }
+
+  const size = readImageSize(buffer);
+  if (size && size.width * size.height > MAX_MEGAPIXELS * 1e6) {
+    throw new FaceAnalysisError(
+      'IMAGE_TOO_LARGE',
+      `Images must be at most ${MAX_MEGAPIXELS} megapixels; this one is ${size.width}×${size.height}.`
+    );
+  }
+
+  try {
+    if (isJpeg(buffer)) {
+      const { data, width, height } = jpeg.decode(buffer, {
+        useTArray: true,
+        formatAsRGBA: true,
+        // Only reached when the header couldn't be read
+        maxResolutionInMP: MAX_MEGAPIXELS
+      });
+      return orientPixels({ data, width, height }, readJpegOrientation(buffer));
+    }
+
+    const { data, width, height } = PNG.sync.read(buffer);
+    return { data: new Uint8Array(data.buffer, data.byteOffset, data.byteLength), width, height };
+  } catch (error) {
+    throw new FaceAnalysisError('CORRUPT_IMAGE', `The image could not be decoded: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { DEFAULT_PRODUCT_CATALOG } from '@/services/products';
+import { DEFAULT_TRY_ON_CATALOG } from '@/services/tryOn';
+import { buildOfflineManifest } from './offlineManifest';
+
+describe('buildOfflineManifest', () => {
+  let root: string;
+  const write = async (file: string, contents: string) => {
+    await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+    await fs.writeFile(path.join(root, file), contents);
+  };
+
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'offline-manifest-'));
+    await write('.next/static/chunks/jspdf.1a2b.js', '');
+    await write('public/try-on/frames-round.svg', '<svg/>');
+    await write('public/products/hair-bob.svg', '<svg/>');
+    await write('public/next.svg', '<svg/>');
+  });
+
+  after(() => fs.rm(root, { recursive: true, force: true }));
+
+  it('lists the shell, the built chunks and the app assets', async () => {
+    const { urls } = await buildOfflineManifest(root);
+    assert.deepEqual(urls, [
+      '/',
+      '/_next/static/chunks/jspdf.1a2b.js',
+      '/try-on/frames-round.svg',
+      '/products/hair-bob.svg'
+    ]);
+  });
+
+  it('changes version when an asset changes', async () => {
+    const original = await buildOfflineManifest(root);
+    await write('public/try-on/frames-round.svg', '<svg width="1"/>');
+    const changed = await buildOfflineManifest(root);
+    assert.notEqual(changed.version, original.version);
+    assert.deepEqual(changed.urls, original.urls);
+  });
+
+  it('covers every product and try-on picture the app ships', async () => {
+    const { urls } = await buildOfflineManifest();
+    const pictures = [
+      ...DEFAULT_PRODUCT_CATALOG.products.map(product => product.image),
+      ...DEFAULT_TRY_ON_CATALOG.assets.map(asset => asset.src)
+    ];
+    assert.deepEqual(pictures.filter(picture => !urls.includes(picture)), []);
+  });
+});
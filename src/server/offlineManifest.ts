@@ -0,0 +1,58 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// What the service worker (public/sw.js) caches on install so the app
+// works with no network, including what a visit may not have loaded yet:
+// lazily loaded chunks (report export, HEIC import) and every asset.
+
+export interface OfflineManifest {
+  // Changes whenever any listed file does; the worker caches per version
+  version: string;
+  urls: string[];
+}
+
+// The page itself, which the worker also falls back to for navigations
+const SHELL = '/';
+
+// Folders of public/ the app loads from: try-on overlays, product
+// pictures and model weights, which are only there after
+// `npm run fetch-models`
+const PUBLIC_ASSET_DIRS = ['try-on', 'products', 'models'];
+
+// Every file under `directory`, relative to it with forward slashes.
+// Empty when the directory doesn't exist.
+async function listFiles(directory: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(directory, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const nested = await Promise.all(entries.map(async entry => entry.isDirectory()
+    ? (await listFiles(path.join(directory, entry.name))).map(file => `${entry.name}/${file}`)
+    : [entry.name]
+  ));
+  return nested.flat();
+}
+
+// Built output under /_next/static has content hashes in its names; public
+// assets don't, so their contents go into the version
+export async function buildOfflineManifest(root = process.cwd()): Promise<OfflineManifest> {
+  const built = (await listFiles(path.join(root, '.next', 'static'))).map(file => `/_next/static/${file}`);
+  const assets = (await Promise.all(PUBLIC_ASSET_DIRS.map(async dir =>
+    (await listFiles(path.join(root, 'public', dir))).map(file => `${dir}/${file}`)
+  ))).flat();
+
+  const hash = createHash('sha1');
+  built.forEach(url => hash.update(url));
+  for (const file of assets) {
+    hash.update(file);
+    hash.update(await fs.readFile(path.join(root, 'public', file)));
+  }
+
+  return {
+    version: hash.digest('hex').slice(0, 12),
+    urls: [SHELL, ...built, ...assets.map(file => `/${file}`)].map(encodeURI)
+  };
+}
@@ -0,0 +1,217 @@
+import { FaceAnalysisError, FaceAnalysisErrorCode } from './errors';
+import { FaceAnalysisService } from './faceAnalysis';
+import type { AnalyzeOptions, FaceAnalysisOptions, FaceAnalysisResult, LoadProgress } from './faceAnalysis';
+import type { AnalysisInput } from './pixels';
+
+// Options have to survive postMessage, so models can only be given as URLs
+export type FaceAnalysisClientOptions = Omit<FaceAnalysisOptions, 'modelUrls'> & {
+  modelUrls?: { detector?: string; landmarks?: string };
+  // Where the app serves what `npm run fetch-models` downloads. Used unless
+  // `modelUrls` is given; anything missing there comes from TF Hub.
+  modelBaseUrl?: string;
+};
+
+export type WorkerRequest =
+  | { id: number; type: 'load'; options: FaceAnalysisClientOptions }
+  | { id: number; type: 'analyze'; image: ImageBitmap; checks: AnalyzeOptions }
+  | { id: number; type: 'resources' };
+
+export type WorkerResponse =
+  | { type: 'progress'; progress: LoadProgress }
+  | { id: number; type: 'loaded' }
+  | { id: number; type: 'analyzed'; faces: FaceAnalysisResult[] }
+  | { id: number; type: 'resources'; urls: string[] }
+  | { id: number; type: 'error'; message: string; code?: FaceAnalysisErrorCode };
+
+// A request before the client numbers it
+type RequestMessage = WorkerRequest extends infer T ? (T extends unknown ? Omit<T, 'id'> : never) : never;
+
+interface PendingRequest {
+  resolve: (response: WorkerResponse) => void;
+  reject: (error: Error) => void;
+}
+
+const DEFAULT_MODEL_BASE_URL = process.env.NEXT_PUBLIC_FACE_MODEL_URL ?? '/models';
+
+const supportsWorker = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined';
+
+async function selfHosted(url: string) {
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    if (response.ok) return url;
+  } catch {
+    // Offline with nothing cached, the CDN won't work either
+  }
+  console.warn(`Nothing served at ${url}, loading it from the CDN instead`);
+  return undefined;
+}
+
+// Browser side of the analysis. Loads the models once and runs inference
+// in a Web Worker, falling back to the main thread where workers can't
+// read images (no OffscreenCanvas) or the worker fails to start.
+export class FaceAnalysisClient {
+  private options: FaceAnalysisClientOptions;
+  private worker: Worker | null = null;
+  private service: FaceAnalysisService | null = null;
+  private loading: Promise<void> | null = null;
+  private loaded = false;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 0;
+  private progress: LoadProgress | null = null;
+  private listeners = new Set<(progress: LoadProgress) => void>();
+
+  constructor(options: FaceAnalysisClientOptions = {}) {
+    this.options = options;
+  }
+
+  // Calls `listener` with loading progress, starting with the latest update.
+  // Returns a function that unsubscribes.
+  onProgress(listener: (progress: LoadProgress) => void) {
+    this.listeners.add(listener);
+    if (this.progress) listener(this.progress);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Starts loading the models if nothing has yet. Safe to call repeatedly.
+  preload(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+      // Let the next call try again rather than caching the failure
+      this.loading.catch(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  async analyzeFaces(input: AnalysisInput, checks: AnalyzeOptions = {}): Promise<FaceAnalysisResult[]> {
+    await this.preload();
+    if (this.service) {
+      return this.service.analyzeFaces(input, checks);
+    }
+
+    const image = await createImageBitmap(input);
+    const response = await this.request({ type: 'analyze', image, checks }, [image]);
+    return response.type === 'analyzed' ? response.faces : [];
+  }
+
+  // Every URL the page and the analysis worker have fetched so far: app
+  // scripts, model weights and WASM binaries
+  async loadedResources(): Promise<string[]> {
+    const urls = performance.getEntriesByType('resource').map(entry => entry.name);
+    if (this.worker) {
+      const response = await this.request({ type: 'resources' });
+      if (response.type === 'resources') urls.push(...response.urls);
+    }
+    return Array.from(new Set(urls));
+  }
+
+  private async resolveOptions(): Promise<FaceAnalysisClientOptions> {
+    const { modelUrls, modelBaseUrl = DEFAULT_MODEL_BASE_URL, wasmPath } = this.options;
+    if (modelUrls) return this.options;
+
+    const [detector, landmarks, wasm] = await Promise.all([
+      selfHosted(`${modelBaseUrl}/face-detection-short/model.json`),
+      this.options.useLandmarks ? selfHosted(`${modelBaseUrl}/face-mesh/model.json`) : undefined,
+      wasmPath ? undefined : selfHosted(`${modelBaseUrl}/wasm/tfjs-backend-wasm.wasm`)
+    ]);
+    return {
+      ...this.options,
+      modelUrls: { detector, landmarks },
+      wasmPath: wasmPath ?? (wasm && `${modelBaseUrl}/wasm/`)
+    };
+  }
+
+  private async load() {
+    const options = await this.resolveOptions();
+    if (supportsWorker()) {
+      try {
+        this.worker = this.startWorker();
+        await this.request({ type: 'load', options });
+        this.loaded = true;
+        return;
+      } catch (error) {
+        // A worker that is still running failed to load the models, which
+        // the main thread wouldn't do any better
+        if (this.worker) throw error;
+        console.warn('Analysis worker failed, analyzing on the main thread:', error);
+      }
+    }
+
+    const service = new FaceAnalysisService(options);
+    await service.initialize(progress => this.emit(progress));
+    this.service = service;
+  }
+
+  private startWorker() {
+    const worker = new Worker(new URL('../workers/faceAnalysis.worker.ts', import.meta.url));
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        this.emit(response.progress);
+        return;
+      }
+
+      const request = this.pending.get(response.id);
+      if (!request) return;
+      this.pending.delete(response.id);
+      if (response.type === 'error') {
+        request.reject(response.code
+          ? new FaceAnalysisError(response.code, response.message)
+          : new Error(response.message));
+      } else {
+        request.resolve(response);
+      }
+    };
+
+    // The worker script itself failed, so nothing in flight will finish.
+    // If it had already loaded, the next preload starts over.
+    worker.onerror = event => {
+      worker.terminate();
+      if (this.worker === worker && this.loaded) {
+        this.loading = null;
+      }
+      this.worker = null;
+      this.loaded = false;
+      const error = new Error(event.message || 'Analysis worker crashed');
+      this.pending.forEach(request => request.reject(error));
+      this.pending.clear();
+    };
+
+    return worker;
+  }
+
+  private request(message: RequestMessage, transfer: Transferable[] = []) {
+    return new Promise<WorkerResponse>((resolve, reject) => {
+      const id = this.nextId++;
+      if (!this.worker) {
+        reject(new Error('Analysis worker is not running'));
+        return;
+      }
+      this.pending.set(id, { resolve, reject });
+      this.worker.postMessage({ ...message, id }, transfer);
+    });
+  }
+
+  private emit(progress: LoadProgress) {
+    this.progress = progress;
+    this.listeners.forEach(listener => listener(progress));
+  }
+}
+
+let sharedClient: FaceAnalysisClient | null = null;
+
+// One client per page so every caller shares the loaded models. The
+// options of the first call are the ones used.
+export function getFaceAnalysisClient(options?: FaceAnalysisClientOptions) {
+  if (!sharedClient) {
+    sharedClient = new FaceAnalysisClient(options);
+  }
+  return sharedClient;
+}
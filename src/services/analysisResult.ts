@@ -0,0 +1,285 @@
+import { ColorAnalysis, ContrastLevel, FeatureColor, SEASONS, Swatch } from './colorAnalysis';
+import { FaceAnalysisError } from './errors';
+import {
+  BROW_ARCHES,
+  EYE_SHAPES,
+  EYE_SPACINGS,
+  EYE_TILTS,
+  FacialFeatures,
+  LIP_FULLNESSES,
+  NOSE_WIDTHS
+} from './facialFeatures';
+import type { FaceShapeDetails } from './faceShape';
+import type { FaceAnchors, FaceBox, Segment } from './geometry';
+import type { HeadPose } from './headPose';
+import type { QualityCheckName, QualityReport, QualityStatus } from './imageQuality';
+import { FACE_SHAPES, FaceProportions, FaceShape } from './proportions';
+import { RECOMMENDATION_CATEGORIES, Recommendation } from './recommendations';
+import {
+  FITZPATRICK_TYPES,
+  SKIN_CATEGORIES,
+  SkinRegionName,
+  SkinToneDetails,
+  SkinToneLabel,
+  UNDERTONES
+} from './skinTone';
+import { COLOR_CASTS, LightingReport, WHITE_BALANCE_METHODS } from './whiteBalance';
+
+// The analysis of one face, as the service returns it, the API sends it
+// and history and reports store it. Stored results are checked with
+// parseAnalysisResult before use.
+
+// Bump when a field is added, removed or changes meaning. Versions so far:
+// 1. Results saved before the version was recorded; they may lack
+//    `colorAnalysis` and `lighting`.
+// 2. `schemaVersion` added, `colorAnalysis` and `lighting` always present.
+// 3. `pose` added, and measurements corrected for it.
+// 4. `features` added.
+export const RESULT_SCHEMA_VERSION = 4;
+
+// How a single measurement was obtained:
+// - landmarks: measured between dense face-mesh landmarks
+// - keypoints: derived from the six detector keypoints
+// - boundingBox: estimated as a fraction of the detection box
+export type MeasurementMethod = 'landmarks' | 'keypoints' | 'boundingBox';
+
+export type Measurements = FaceProportions;
+
+export interface FaceAnalysisResult {
+  // RESULT_SCHEMA_VERSION of the app that produced it. Missing means 1.
+  schemaVersion?: number;
+  // Where this face was found, in image pixels
+  box: FaceBox;
+  anchors: FaceAnchors;
+  // How the head was turned, or null when the eyes weren't found. Missing
+  // from results before version 3.
+  pose?: HeadPose | null;
+  faceShape: FaceShape;
+  // How likely each shape is, with the top two
+  faceShapeDetails: FaceShapeDetails;
+  skinTone: SkinToneLabel;
+  // Read after white balance correction
+  skinToneDetails: SkinToneDetails;
+  // Eyes, brows, lips, nose and symmetry, or null when the face mesh didn't
+  // find the face. Missing from results before version 4.
+  features?: FacialFeatures | null;
+  // The light the photo was taken in, how it was corrected and how good it
+  // is for reading colors. Missing from version 1 results.
+  lighting?: LightingReport;
+  // Hair and eye color, contrast and the seasonal palette. Missing from
+  // version 1 results.
+  colorAnalysis?: ColorAnalysis;
+  recommendations: Recommendation[];
+  // Version of the rule catalog the recommendations came from
+  recommendationRulesVersion: number;
+  measurements: Measurements & {
+    methods: Record<keyof Measurements, MeasurementMethod>;
+    // Where each measurement was taken, in image pixels. A segment's length
+    // is the measured value, including estimated ones, before it was
+    // corrected for the head pose.
+    lines: Record<keyof Measurements, Segment>;
+  };
+  // Share of the measuring points found, times how clearly the face shape
+  // beat the runner-up, lowered for a head turned or nodding too far
+  confidence: number;
+  quality: QualityReport;
+  // tfjs backend the models ran on, e.g. 'webgl', 'wasm' or 'cpu'
+  backend: string;
+}
+
+// Throws when `value` at `path` doesn't fit
+type Check = (value: unknown, path: string) => void;
+
+const invalid = (path: string, expected: string): never => {
+  throw new FaceAnalysisError('INVALID_RESULT', `The saved analysis is damaged: ${path} should be ${expected}.`);
+};
+
+const number: Check = (value, path) => {
+  if (typeof value !== 'number') invalid(path, 'a number');
+};
+const string: Check = (value, path) => {
+  if (typeof value !== 'string') invalid(path, 'text');
+};
+const oneOf = (allowed: readonly string[]): Check => (value, path) => {
+  if (!allowed.includes(value as string)) invalid(path, `one of ${allowed.join(', ')}`);
+};
+const optional = (check: Check): Check => (value, path) => {
+  if (value !== undefined) check(value, path);
+};
+const nullable = (check: Check): Check => (value, path) => {
+  if (value !== null) check(value, path);
+};
+const arrayOf = (check: Check): Check => (value, path) => {
+  if (!Array.isArray(value)) invalid(path, 'a list');
+  (value as unknown[]).forEach((item, index) => check(item, `${path}[${index}]`));
+};
+// Every key of T gets a check, so adding a field to a type without
+// validating it fails to compile
+const object = <T>(checks: { [K in keyof T]-?: Check }): Check => (value, path) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) invalid(path, 'an object');
+  (Object.keys(checks) as (keyof T & string)[]).forEach(key =>
+    checks[key]((value as Record<string, unknown>)[key], `${path}.${key}`)
+  );
+};
+
+const point = arrayOf(number);
+const segment = arrayOf(point);
+const box = object<FaceBox>({ xMin: number, yMin: number, width: number, height: number });
+const rgb = object<SkinToneDetails['rgb']>({ r: number, g: number, b: number });
+const lab = object<SkinToneDetails['lab']>({ L: number, a: number, b: number });
+const measured = (check: Check) => object<Measurements>({
+  faceWidth: check,
+  faceHeight: check,
+  foreheadWidth: check,
+  jawWidth: check,
+  chinLength: check
+});
+
+const SKIN_REGIONS: SkinRegionName[] = ['forehead', 'leftCheek', 'rightCheek'];
+const SKIN_TONE_LABELS: SkinToneLabel[] = UNDERTONES.flatMap(undertone =>
+  SKIN_CATEGORIES.map(category => `${undertone} ${category}` as const)
+);
+const CONTRAST_LEVELS: ContrastLevel[] = ['Low', 'Medium', 'High'];
+const QUALITY_STATUSES: QualityStatus[] = ['pass', 'warn', 'fail'];
+const QUALITY_CHECKS: QualityCheckName[] = ['blur', 'exposure', 'clipping', 'faceSize', 'roll', 'yaw', 'pitch', 'occlusion'];
+const MEASUREMENT_METHODS: MeasurementMethod[] = ['landmarks', 'keypoints', 'boundingBox'];
+
+const skinReading = {
+  ita: number,
+  category: oneOf(SKIN_CATEGORIES),
+  fitzpatrick: oneOf(FITZPATRICK_TYPES),
+  undertone: oneOf(UNDERTONES),
+  hueAngle: number,
+  rgb,
+  lab
+};
+
+const featureColor = nullable(object<FeatureColor>({ label: string, rgb, lab, hex: string }));
+const swatch = object<Swatch>({ name: string, hex: string });
+
+const resultCheck = object<FaceAnalysisResult>({
+  schemaVersion: optional(number),
+  box,
+  anchors: object<FaceAnchors>({
+    box,
+    leftEye: optional(point),
+    rightEye: optional(point),
+    noseTip: optional(point),
+    mouthCenter: optional(point),
+    leftEar: optional(point),
+    rightEar: optional(point)
+  }),
+  pose: optional(nullable(object<HeadPose>({ roll: number, yaw: number, pitch: number }))),
+  faceShape: oneOf(FACE_SHAPES),
+  faceShapeDetails: object<FaceShapeDetails>({
+    scores: arrayOf(object<FaceShapeDetails['scores'][number]>({ shape: oneOf(FACE_SHAPES), probability: number })),
+    top: arrayOf(object<FaceShapeDetails['top'][number]>({ shape: oneOf(FACE_SHAPES), probability: number })),
+    margin: number
+  }),
+  skinTone: oneOf(SKIN_TONE_LABELS),
+  skinToneDetails: object<SkinToneDetails>({
+    ...skinReading,
+    regions: arrayOf(object<SkinToneDetails['regions'][number]>({
+      name: oneOf(SKIN_REGIONS),
+      x: number,
+      y: number,
+      width: number,
+      height: number,
+      pixelCount: number,
+      keptPixels: number,
+      rgb,
+      lab
+    })),
+    uncorrected: optional(object<NonNullable<SkinToneDetails['uncorrected']>>(skinReading))
+  }),
+  features: optional(nullable(object<FacialFeatures>({
+    eyes: object<FacialFeatures['eyes']>({
+      shape: oneOf(EYE_SHAPES),
+      openness: number,
+      tilt: oneOf(EYE_TILTS),
+      tiltAngle: number,
+      spacing: oneOf(EYE_SPACINGS),
+      spacingRatio: number
+    }),
+    brows: object<FacialFeatures['brows']>({ arch: oneOf(BROW_ARCHES), archHeight: number }),
+    lips: object<FacialFeatures['lips']>({ fullness: oneOf(LIP_FULLNESSES), heightToWidth: number }),
+    nose: object<FacialFeatures['nose']>({ width: oneOf(NOSE_WIDTHS), widthToFace: number }),
+    symmetry: nullable(number)
+  }))),
+  lighting: optional(object<LightingReport>({
+    method: oneOf(WHITE_BALANCE_METHODS),
+    illuminant: rgb,
+    gains: rgb,
+    cast: oneOf(COLOR_CASTS),
+    castStrength: number,
+    card: optional(box),
+    score: number,
+    message: string
+  })),
+  colorAnalysis: optional(object<ColorAnalysis>({
+    hair: featureColor,
+    eyes: featureColor,
+    contrast: number,
+    contrastLevel: oneOf(CONTRAST_LEVELS),
+    characteristics: object<ColorAnalysis['characteristics']>({ warmth: number, depth: number, clarity: number }),
+    season: oneOf(SEASONS),
+    explanation: string,
+    palette: object<ColorAnalysis['palette']>({
+      description: string,
+      recommended: arrayOf(swatch),
+      avoid: arrayOf(swatch)
+    })
+  })),
+  recommendations: arrayOf(object<Recommendation>({
+    id: string,
+    category: oneOf(RECOMMENDATION_CATEGORIES),
+    priority: number,
+    text: string,
+    rationale: string
+  })),
+  recommendationRulesVersion: number,
+  measurements: object<FaceAnalysisResult['measurements']>({
+    faceWidth: number,
+    faceHeight: number,
+    foreheadWidth: number,
+    jawWidth: number,
+    chinLength: number,
+    methods: measured(oneOf(MEASUREMENT_METHODS)),
+    lines: measured(segment)
+  }),
+  confidence: number,
+  quality: object<QualityReport>({
+    status: oneOf(QUALITY_STATUSES),
+    checks: arrayOf(object<QualityReport['checks'][number]>({
+      name: oneOf(QUALITY_CHECKS),
+      status: oneOf(QUALITY_STATUSES),
+      value: number,
+      message: string,
+      guidance: optional(string)
+    }))
+  }),
+  backend: string
+});
+
+// Checks a result read back from storage or a file, throwing INVALID_RESULT
+// with the first field at fault. Results from a newer app version are
+// refused rather than half understood.
+export function parseAnalysisResult(json: unknown): FaceAnalysisResult {
+  const version = (json as Partial<FaceAnalysisResult> | null)?.schemaVersion ?? 1;
+  if (typeof version === 'number' && version > RESULT_SCHEMA_VERSION) {
+    throw new FaceAnalysisError(
+      'INVALID_RESULT',
+      'This analysis was made by a newer version of the app, please update to open it.'
+    );
+  }
+
+  resultCheck(json, 'result');
+  const result = json as FaceAnalysisResult;
+  if (version >= 2) {
+    if (!result.lighting) invalid('result.lighting', 'present');
+    if (!result.colorAnalysis) invalid('result.colorAnalysis', 'present');
+  }
+  if (version >= 3 && result.pose === undefined) invalid('result.pose', 'present');
+  if (version >= 4 && result.features === undefined) invalid('result.features', 'present');
+  return result;
+}
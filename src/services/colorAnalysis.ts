@@ -0,0 +1,344 @@
+import defaultPalettes from '@/data/seasonalPalettes.json';
+import { FaceAnchors, Point, byX, distance, midpoint } from './geometry';
+import type { PixelData } from './pixels';
+import { Lab, RGB, SkinToneDetails, rgbToLab } from './skinTone';
+import { DEFAULT_THRESHOLDS, SkinToneThresholds } from './thresholds';
+
+// Seasonal color analysis: reads hair and eye color next to the skin tone,
+// measures how much they contrast, and places the person in one of twelve
+// seasons, each with a palette to wear and one to avoid.
+//
+// The season follows the usual three axes: warm vs cool, light vs deep and
+// bright vs soft. Whichever axis is most pronounced picks the season family
+// member (Light, Deep, True, Bright or Soft); the other two decide between
+// the seasons that share it.
+
+export type Season =
+  | 'Light Spring' | 'True Spring' | 'Bright Spring'
+  | 'Light Summer' | 'True Summer' | 'Soft Summer'
+  | 'Soft Autumn' | 'True Autumn' | 'Deep Autumn'
+  | 'Deep Winter' | 'True Winter' | 'Bright Winter';
+
+export const SEASONS: Season[] = [
+  'Light Spring', 'True Spring', 'Bright Spring',
+  'Light Summer', 'True Summer', 'Soft Summer',
+  'Soft Autumn', 'True Autumn', 'Deep Autumn',
+  'Deep Winter', 'True Winter', 'Bright Winter'
+];
+
+export type ContrastLevel = 'Low' | 'Medium' | 'High';
+
+export interface Swatch {
+  name: string;
+  // #RRGGBB
+  hex: string;
+}
+
+export interface SeasonPalette {
+  description: string;
+  recommended: Swatch[];
+  avoid: Swatch[];
+}
+
+export interface PaletteCatalog {
+  version: number;
+  seasons: Record<Season, SeasonPalette>;
+}
+
+export interface FeatureColor {
+  // Plain-language name such as "Dark brown"
+  label: string;
+  rgb: RGB;
+  lab: Lab;
+  hex: string;
+}
+
+export interface ColorAnalysis {
+  // Null when no part of the image around the face looked like hair or an iris
+  hair: FeatureColor | null;
+  eyes: FeatureColor | null;
+  // Lightness difference (ΔL*) between the skin and the darker of hair and eyes
+  contrast: number;
+  contrastLevel: ContrastLevel;
+  // Each from -1 to 1: cool to warm, light to deep, soft to bright
+  characteristics: { warmth: number; depth: number; clarity: number };
+  season: Season;
+  explanation: string;
+  palette: SeasonPalette;
+}
+
+interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// ΔL* between skin and the darkest feature; below the first is low
+// contrast, from the second up is high
+const CONTRAST_LEVELS = { medium: 25, high: 45 };
+// Overall lightness (L*) where a person reads neither light nor deep, and
+// how far from it counts as fully light or deep
+const DEPTH_CENTER = 50;
+const DEPTH_RANGE = 20;
+// Contrast that reads neither bright nor soft, and how far from it counts
+// as fully bright or soft. Dark hair against light skin is common, so the
+// middle sits fairly high.
+const CLARITY_CENTER = 40;
+const CLARITY_RANGE = 25;
+// Lab distance under which a pixel is taken for skin rather than hair or iris
+const SKIN_DISTANCE = 12;
+// Share of a region's pixels that must survive filtering to be trusted
+const MIN_KEPT_FRACTION = 0.15;
+
+const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+const chroma = (lab: Lab) => Math.hypot(lab.a, lab.b);
+const hue = (lab: Lab) => Math.atan2(lab.b, lab.a) * 180 / Math.PI;
+const labDistance = (a: Lab, b: Lab) => Math.hypot(a.L - b.L, a.a - b.a, a.b - b.b);
+
+export function rgbToHex({ r, g, b }: RGB) {
+  return `#${[r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+}
+
+export function parsePaletteCatalog(json: unknown): PaletteCatalog {
+  const catalog = json as PaletteCatalog;
+  if (!catalog || typeof catalog.version !== 'number' || !catalog.seasons) {
+    throw new Error('Seasonal palettes must have a numeric "version" and "seasons"');
+  }
+
+  const isSwatchList = (swatches: unknown) => Array.isArray(swatches) && swatches.every(swatch =>
+    typeof swatch?.name === 'string' && /^#[0-9a-f]{6}$/i.test(swatch?.hex)
+  );
+  SEASONS.forEach(season => {
+    const palette = catalog.seasons[season];
+    if (!palette || typeof palette.description !== 'string') {
+      throw new Error(`Seasonal palette "${season}" is missing or has no description`);
+    }
+    if (!isSwatchList(palette.recommended) || !isSwatchList(palette.avoid)) {
+      throw new Error(`Seasonal palette "${season}" needs "recommended" and "avoid" lists of { name, hex: "#RRGGBB" }`);
+    }
+  });
+  Object.keys(catalog.seasons).forEach(season => {
+    if (!SEASONS.includes(season as Season)) throw new Error(`Seasonal palettes list unknown season "${season}"`);
+  });
+
+  return catalog;
+}
+
+export const DEFAULT_PALETTES = parsePaletteCatalog(defaultPalettes);
+
+// Hair is looked for above the forehead and beside the temples, irises in
+// a small square on each eye center. Empty without both eyes.
+export function colorSampleRegions(anchors: FaceAnchors): { hair: Region[]; eyes: Region[] } {
+  if (!anchors.leftEye || !anchors.rightEye) return { hair: [], eyes: [] };
+
+  const [eyeA, eyeB] = byX(anchors.leftEye, anchors.rightEye);
+  const eyeDistance = distance(eyeA, eyeB);
+  const eyeCenter = midpoint(eyeA, eyeB);
+  const square = (center: Point, size: number): Region => ({
+    x: center[0] - size / 2,
+    y: center[1] - size / 2,
+    width: size,
+    height: size
+  });
+  const temple = (side: -1 | 1): Region => ({
+    x: eyeCenter[0] + side * eyeDistance * 1.15 - eyeDistance * 0.15,
+    y: eyeCenter[1] - eyeDistance * 0.7,
+    width: eyeDistance * 0.3,
+    height: eyeDistance * 0.6
+  });
+
+  return {
+    hair: [
+      {
+        x: eyeCenter[0] - eyeDistance * 0.4,
+        y: eyeCenter[1] - eyeDistance * 1.9,
+        width: eyeDistance * 0.8,
+        height: eyeDistance * 0.4
+      },
+      temple(-1),
+      temple(1)
+    ],
+    // An iris is about a fifth of the eye distance across
+    eyes: [square(eyeA, eyeDistance * 0.2), square(eyeB, eyeDistance * 0.2)]
+  };
+}
+
+// Median color of the pixels in `regions` that pass `keep`, ignoring
+// regions where too few do. Null when none qualify.
+function sampleColor(pixels: PixelData, regions: Region[], keep: (lab: Lab) => boolean): { rgb: RGB; lab: Lab } | null {
+  let kept: RGB[] = [];
+  regions.forEach(region => {
+    const x0 = Math.max(0, Math.floor(region.x));
+    const y0 = Math.max(0, Math.floor(region.y));
+    const x1 = Math.min(pixels.width, Math.ceil(region.x + region.width));
+    const y1 = Math.min(pixels.height, Math.ceil(region.y + region.height));
+
+    const regionKept: RGB[] = [];
+    let pixelCount = 0;
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const i = (y * pixels.width + x) * 4;
+        const rgb = { r: pixels.data[i], g: pixels.data[i + 1], b: pixels.data[i + 2] };
+        pixelCount++;
+        if (keep(rgbToLab(rgb))) regionKept.push(rgb);
+      }
+    }
+    if (pixelCount > 0 && regionKept.length / pixelCount >= MIN_KEPT_FRACTION) kept = kept.concat(regionKept);
+  });
+  if (kept.length === 0) return null;
+
+  const median = (channel: keyof RGB) => {
+    const values = kept.map(rgb => rgb[channel]).sort((a, b) => a - b);
+    return values[Math.floor(values.length / 2)];
+  };
+  const rgb = { r: median('r'), g: median('g'), b: median('b') };
+  return { rgb, lab: rgbToLab(rgb) };
+}
+
+function hairLabel(lab: Lab) {
+  if (chroma(lab) < 6 && lab.L > 50) return 'Gray';
+  if (lab.L > 25 && lab.a > 12 && hue(lab) < 55) return 'Red';
+  if (lab.L < 20) return 'Black';
+  if (lab.L < 30) return 'Dark brown';
+  if (lab.L < 42) return 'Brown';
+  if (lab.L < 55) return 'Light brown';
+  return 'Blonde';
+}
+
+function eyeLabel(lab: Lab) {
+  const angle = hue(lab);
+  if (chroma(lab) < 8 && lab.L > 40) return 'Gray';
+  // Any blue in the iris pulls b* below zero
+  if (angle < 0 || angle > 150) return 'Blue';
+  if (angle > 90) return 'Green';
+  if (lab.L < 30) return 'Dark brown';
+  if (angle > 65 && lab.L > 35) return 'Hazel';
+  return 'Brown';
+}
+
+const featureColor = (sample: { rgb: RGB; lab: Lab } | null, label: (lab: Lab) => string): FeatureColor | null =>
+  sample && { label: label(sample.lab), rgb: sample.rgb, lab: sample.lab, hex: rgbToHex(sample.rgb) };
+
+export function sampleFeatureColors(pixels: PixelData, anchors: FaceAnchors, skin: Lab) {
+  const regions = colorSampleRegions(anchors);
+  const notSkin = (lab: Lab) => labDistance(lab, skin) > SKIN_DISTANCE;
+
+  // Hair is darker or much less saturated than the background tends to be;
+  // anything very bright is sky, wall or shine
+  const hair = sampleColor(pixels, regions.hair, lab => notSkin(lab) && lab.L < 80);
+  // Drop the whites of the eyes, the pupil and lashes, and eyelid skin
+  const eyes = sampleColor(pixels, regions.eyes, lab =>
+    notSkin(lab) && lab.L > 12 && !(lab.L > 65 && chroma(lab) < 15)
+  );
+  return { hair: featureColor(hair, hairLabel), eyes: featureColor(eyes, eyeLabel) };
+}
+
+type Axis = 'warmth' | 'depth' | 'clarity';
+
+function pickSeason({ warmth, depth, clarity }: Record<Axis, number>): Season {
+  const warm = warmth >= 0;
+  const axes: [Axis, number][] = [['warmth', warmth], ['depth', depth], ['clarity', clarity]];
+  const [dominant, value] = axes.reduce((best, axis) => Math.abs(axis[1]) > Math.abs(best[1]) ? axis : best);
+
+  if (dominant === 'depth') {
+    if (value < 0) return warm ? 'Light Spring' : 'Light Summer';
+    return warm ? 'Deep Autumn' : 'Deep Winter';
+  }
+  if (dominant === 'clarity') {
+    if (value > 0) return warm ? 'Bright Spring' : 'Bright Winter';
+    return warm ? 'Soft Autumn' : 'Soft Summer';
+  }
+  // Springs are the lighter, clearer warm season, winters the deeper,
+  // clearer cool one
+  if (warm) return clarity - depth >= 0 ? 'True Spring' : 'True Autumn';
+  return clarity + depth >= 0 ? 'True Winter' : 'True Summer';
+}
+
+function describe(
+  season: Season,
+  palette: SeasonPalette,
+  characteristics: Record<Axis, number>,
+  contrastLevel: ContrastLevel,
+  hair: FeatureColor | null,
+  eyes: FeatureColor | null
+) {
+  const { warmth, depth, clarity } = characteristics;
+  const lean = (value: number, negative: string, positive: string) =>
+    `${Math.abs(value) > 0.6 ? 'clearly' : 'slightly'} ${value < 0 ? negative : positive}`;
+  const traits = [
+    lean(warmth, 'cool', 'warm'),
+    lean(depth, 'light', 'deep'),
+    lean(clarity, 'soft', 'bright')
+  ].join(', ');
+  const features = [
+    hair && `${hair.label.toLowerCase()} hair`,
+    eyes && `${eyes.label.toLowerCase()} eyes`
+  ].filter(Boolean).join(' and ');
+  const missing = [!hair && 'hair', !eyes && 'eye'].filter(Boolean).join(' and ');
+
+  return [
+    `Your coloring reads ${traits}, which makes you a ${season}.`,
+    features
+      ? `With ${features}, the contrast against your skin is ${contrastLevel.toLowerCase()}.`
+      : `Contrast is judged from skin alone (${contrastLevel.toLowerCase()}).`,
+    missing && `Your ${missing} color could not be read, so it was left out.`,
+    palette.description
+  ].filter(Boolean).join(' ');
+}
+
+export function classifySeason(
+  skin: Pick<SkinToneDetails, 'lab' | 'hueAngle'>,
+  hair: FeatureColor | null,
+  eyes: FeatureColor | null,
+  thresholds: SkinToneThresholds = DEFAULT_THRESHOLDS.skinTone,
+  palettes: PaletteCatalog = DEFAULT_PALETTES
+): ColorAnalysis {
+  // Skin hue sets the temperature, nudged by the hair: golden and red hair
+  // is saturated, ashy hair is not. Dark hair is low in chroma whatever
+  // its tint, so it doesn't count.
+  const hueMiddle = (thresholds.warmHueMin + thresholds.coolHueMax) / 2;
+  const hueSpan = Math.max(1, thresholds.warmHueMin - thresholds.coolHueMax);
+  const skinWarmth = clamp((skin.hueAngle - hueMiddle) / hueSpan);
+  const warmth = hair && hair.lab.L > 25
+    ? 0.7 * skinWarmth + 0.3 * clamp((chroma(hair.lab) - 10) / 10)
+    : skinWarmth;
+
+  const weights = [[skin.lab.L, 0.5], [hair?.lab.L, 0.35], [eyes?.lab.L, 0.15]]
+    .filter((pair): pair is [number, number] => pair[0] !== undefined);
+  const totalWeight = weights.reduce((sum, [, weight]) => sum + weight, 0);
+  const lightness = weights.reduce((sum, [L, weight]) => sum + L * weight, 0) / totalWeight;
+  const depth = clamp((DEPTH_CENTER - lightness) / DEPTH_RANGE);
+
+  const darkest = Math.min(hair?.lab.L ?? skin.lab.L, eyes?.lab.L ?? skin.lab.L);
+  const contrast = Math.abs(skin.lab.L - darkest);
+  const contrastLevel: ContrastLevel = contrast >= CONTRAST_LEVELS.high
+    ? 'High'
+    : contrast >= CONTRAST_LEVELS.medium ? 'Medium' : 'Low';
+  // Vivid eyes read bright even when contrast is moderate
+  const clarity = clamp((contrast - CLARITY_CENTER) / CLARITY_RANGE + (eyes ? (chroma(eyes.lab) - 15) / 40 : 0));
+
+  const characteristics = { warmth, depth, clarity };
+  const season = pickSeason(characteristics);
+  const palette = palettes.seasons[season];
+  return {
+    hair,
+    eyes,
+    contrast,
+    contrastLevel,
+    characteristics,
+    season,
+    explanation: describe(season, palette, characteristics, contrastLevel, hair, eyes),
+    palette
+  };
+}
+
+export function analyzeColors(
+  pixels: PixelData,
+  anchors: FaceAnchors,
+  skin: Pick<SkinToneDetails, 'lab' | 'hueAngle'>,
+  thresholds: SkinToneThresholds = DEFAULT_THRESHOLDS.skinTone
+): ColorAnalysis {
+  const { hair, eyes } = sampleFeatureColors(pixels, anchors, skin.lab);
+  return classifySeason(skin, hair, eyes, thresholds);
+}
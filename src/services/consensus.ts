@@ -0,0 +1,184 @@
+import type { FaceAnalysisResult, Measurements } from './analysisResult';
+import { FaceShapeDetails, rankFaceShapes } from './faceShape';
+import { FaceShape, MEASUREMENT_RATIOS, measurementRatios } from './proportions';
+import { DEFAULT_RULE_CATALOG, RuleCatalog, recommend } from './recommendations';
+import { Lab, SkinToneDetails, SkinToneLabel, classifySkinTone, skinToneLabel } from './skinTone';
+import { ClassifierThresholds, DEFAULT_THRESHOLDS } from './thresholds';
+
+// How many photos of the same face a consensus is taken over
+export const MIN_CONSENSUS_PHOTOS = 3;
+export const MAX_CONSENSUS_PHOTOS = 5;
+
+// A photo is an outlier when one of its ratios sits further than this from
+// the set's median, in robust standard deviations
+const RATIO_OUTLIER_Z = 3;
+// Smallest spread assumed for a ratio, as a share of its median, so a few
+// near-identical photos don't make every small difference an outlier
+const MIN_RATIO_SPREAD = 0.03;
+// CIE76 difference from the set's median skin color past which a photo's
+// tone is an outlier; around 10 is plainly visible side by side
+const TONE_OUTLIER_DELTA_E = 10;
+// Scales a median absolute deviation to a standard deviation
+const MAD_TO_SD = 1.4826;
+
+export interface ConsensusOptions {
+  thresholds?: ClassifierThresholds;
+  ruleCatalog?: RuleCatalog;
+}
+
+export interface PhotoAgreement {
+  faceShape: FaceShape;
+  skinTone: SkinToneLabel;
+  // Largest distance of one of the photo's ratios from the set's median,
+  // in robust standard deviations
+  ratioDeviation: number;
+  // CIE76 difference of the photo's skin color from the set's median
+  toneDifference: number;
+  // Disagrees with the rest of the set; `reasons` says how
+  outlier: boolean;
+  reasons: string[];
+  // Counted toward the consensus. Outliers are left out unless fewer than
+  // two photos agree, when there is no majority to trust.
+  used: boolean;
+}
+
+export interface ConsensusAnalysis {
+  // The combined analysis. Its geometry, lighting, quality, facial features
+  // and color season are those of the photo at `base`, the most confident
+  // one used.
+  result: FaceAnalysisResult;
+  base: number;
+  // One per photo, in the order given
+  photos: PhotoAgreement[];
+  // Share of the photos used that read the consensus face shape and skin tone
+  shapeAgreement: number;
+  toneAgreement: number;
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+const medianLab = (labs: Lab[]): Lab => ({
+  L: median(labs.map(lab => lab.L)),
+  a: median(labs.map(lab => lab.a)),
+  b: median(labs.map(lab => lab.b))
+});
+
+const deltaE = (x: Lab, y: Lab) => Math.hypot(x.L - y.L, x.a - y.a, x.b - y.b);
+
+// Flags the photos whose proportions or skin color stand apart from the set
+function findOutliers(results: FaceAnalysisResult[]) {
+  const ratios = results.map(result => measurementRatios(result.measurements));
+  const deviations = results.map(() => 0);
+  MEASUREMENT_RATIOS.forEach(name => {
+    const values = ratios.map(ratio => ratio[name]);
+    const center = median(values);
+    const spread = Math.max(
+      MAD_TO_SD * median(values.map(value => Math.abs(value - center))),
+      MIN_RATIO_SPREAD * Math.abs(center)
+    );
+    values.forEach((value, index) => {
+      deviations[index] = Math.max(deviations[index], Math.abs(value - center) / spread);
+    });
+  });
+
+  const tone = medianLab(results.map(result => result.skinToneDetails.lab));
+  return results.map((result, index) => {
+    const toneDifference = deltaE(result.skinToneDetails.lab, tone);
+    const reasons = [
+      deviations[index] > RATIO_OUTLIER_Z && 'Face proportions differ from the other photos',
+      toneDifference > TONE_OUTLIER_DELTA_E && 'Skin color differs from the other photos',
+      result.quality.status === 'fail' && 'Photo quality is too low'
+    ].filter((reason): reason is string => Boolean(reason));
+    return { ratioDeviation: deviations[index], toneDifference, reasons };
+  });
+}
+
+// Averages the shape distributions of several photos into one
+function averageShapes(results: FaceAnalysisResult[]): FaceShapeDetails {
+  const totals = new Map<FaceShape, number>();
+  results.forEach(result => result.faceShapeDetails.scores.forEach(({ shape, probability }) => {
+    totals.set(shape, (totals.get(shape) ?? 0) + probability);
+  }));
+  return rankFaceShapes(Array.from(totals, ([shape, total]) => ({ shape, probability: total / results.length })));
+}
+
+// Combines analyses of the main face in 3-5 photos of the same person into
+// one result: measurements are medians, taken after scaling every photo to
+// the same face width; the face shape is the average of the shape
+// distributions; the skin tone is read from the median skin color.
+export function combineAnalyses(results: FaceAnalysisResult[], options: ConsensusOptions = {}): ConsensusAnalysis {
+  if (results.length < MIN_CONSENSUS_PHOTOS || results.length > MAX_CONSENSUS_PHOTOS) {
+    throw new Error(`A consensus needs ${MIN_CONSENSUS_PHOTOS}-${MAX_CONSENSUS_PHOTOS} analyses, got ${results.length}`);
+  }
+
+  const outliers = findOutliers(results);
+  const agreeing = outliers.filter(({ reasons }) => reasons.length === 0).length;
+  const usedFlags = outliers.map(({ reasons }) => agreeing < 2 || reasons.length === 0);
+  const used = results.filter((_, index) => usedFlags[index]);
+
+  const base = results.reduce(
+    (best, result, index) => usedFlags[index] && (best === -1 || result.confidence > results[best].confidence)
+      ? index
+      : best,
+    -1
+  );
+  const baseResult = results[base];
+
+  // In the base photo's pixels, so the numbers stay comparable to its lines
+  const scaled = (name: keyof Measurements) => median(used.map(result =>
+    result.measurements[name] * baseResult.measurements.faceWidth / result.measurements.faceWidth
+  ));
+  const measurements: Measurements = {
+    faceWidth: scaled('faceWidth'),
+    faceHeight: scaled('faceHeight'),
+    foreheadWidth: scaled('foreheadWidth'),
+    jawWidth: scaled('jawWidth'),
+    chinLength: scaled('chinLength')
+  };
+
+  const faceShapeDetails = averageShapes(used);
+  const faceShape = faceShapeDetails.top[0].shape;
+  const thresholds = options.thresholds ?? DEFAULT_THRESHOLDS;
+  const lab = medianLab(used.map(result => result.skinToneDetails.lab));
+  const skinToneDetails: SkinToneDetails = {
+    ...baseResult.skinToneDetails,
+    ...classifySkinTone(lab, thresholds.skinTone),
+    rgb: {
+      r: Math.round(median(used.map(result => result.skinToneDetails.rgb.r))),
+      g: Math.round(median(used.map(result => result.skinToneDetails.rgb.g))),
+      b: Math.round(median(used.map(result => result.skinToneDetails.rgb.b)))
+    }
+  };
+  const skinTone = skinToneLabel(skinToneDetails);
+  const catalog = options.ruleCatalog ?? DEFAULT_RULE_CATALOG;
+  const shapeAgreement = used.filter(result => result.faceShape === faceShape).length / used.length;
+
+  return {
+    result: {
+      ...baseResult,
+      faceShape,
+      faceShapeDetails,
+      skinTone,
+      skinToneDetails,
+      recommendations: recommend({ faceShape, skinToneDetails, measurements, features: baseResult.features }, catalog),
+      recommendationRulesVersion: catalog.version,
+      measurements: { ...baseResult.measurements, ...measurements },
+      // How clearly the averaged shape won, times how many photos agree
+      confidence: faceShapeDetails.margin * shapeAgreement
+    },
+    base,
+    photos: results.map((result, index) => ({
+      faceShape: result.faceShape,
+      skinTone: result.skinTone,
+      ...outliers[index],
+      outlier: outliers[index].reasons.length > 0,
+      used: usedFlags[index]
+    })),
+    shapeAgreement,
+    toneAgreement: used.filter(result => result.skinTone === skinTone).length / used.length
+  };
+}
@@ -0,0 +1,52 @@
+// What went wrong, grouped by what the user can do about it:
+// - the photo: NO_FACE, MULTIPLE_FACES, NO_SKIN_VISIBLE, LOW_QUALITY,
+//   UNSUPPORTED_IMAGE, CORRUPT_IMAGE, IMAGE_TOO_LARGE
+// - the device: CAMERA_UNAVAILABLE, MODEL_LOAD_FAILED, BACKEND_UNAVAILABLE
+// - a saved result or report that can't be read: INVALID_RESULT
+// - anything unexpected: INTERNAL_ERROR
+export type FaceAnalysisErrorCode =
+  | 'NO_FACE'
+  | 'MULTIPLE_FACES'
+  | 'NO_SKIN_VISIBLE'
+  | 'LOW_QUALITY'
+  | 'UNSUPPORTED_IMAGE'
+  | 'CORRUPT_IMAGE'
+  | 'IMAGE_TOO_LARGE'
+  | 'CAMERA_UNAVAILABLE'
+  | 'MODEL_LOAD_FAILED'
+  | 'BACKEND_UNAVAILABLE'
+  | 'INVALID_RESULT'
+  | 'INTERNAL_ERROR';
+
+export const FACE_ANALYSIS_ERROR_CODES: FaceAnalysisErrorCode[] = [
+  'NO_FACE',
+  'MULTIPLE_FACES',
+  'NO_SKIN_VISIBLE',
+  'LOW_QUALITY',
+  'UNSUPPORTED_IMAGE',
+  'CORRUPT_IMAGE',
+  'IMAGE_TOO_LARGE',
+  'CAMERA_UNAVAILABLE',
+  'MODEL_LOAD_FAILED',
+  'BACKEND_UNAVAILABLE',
+  'INVALID_RESULT',
+  'INTERNAL_ERROR'
+];
+
+// Failures callers are expected to handle, told apart by `code`. The
+// message is written to be shown to the user as-is.
+export class FaceAnalysisError extends Error {
+  readonly code: FaceAnalysisErrorCode;
+
+  constructor(code: FaceAnalysisErrorCode, message: string) {
+    super(message);
+    this.name = 'FaceAnalysisError';
+    this.code = code;
+  }
+}
+
+// `error` if it is already a FaceAnalysisError, otherwise one with `code`
+// and `message` in its place
+export function toFaceAnalysisError(error: unknown, code: FaceAnalysisErrorCode, message: string) {
+  return error instanceof FaceAnalysisError ? error : new FaceAnalysisError(code, message);
+}
@@ -0,0 +1,98 @@
+import type { PixelData } from './pixels';
+
+// EXIF orientation for JPEGs. Phones store photos as the sensor saw them
+// and record in the Orientation tag how to turn them upright:
+// 1 upright, 2 mirrored, 3 upside down, 4 flipped vertically, 5–8 the same
+// four turned a quarter, which swaps width and height.
+
+export type Orientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+const ORIENTATION_TAG = 0x0112;
+
+export const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+
+// The Orientation tag of a JPEG, or 1 when there is none or the file isn't
+// a JPEG. Never throws on malformed data.
+export function readJpegOrientation(bytes: Uint8Array): Orientation {
+  if (!isJpeg(bytes)) return 1;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  try {
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      // Start of scan: image data follows and no more metadata
+      if (marker === 0xda) break;
+      const length = view.getUint16(offset + 2);
+      const isExif = marker === 0xe1 &&
+        view.getUint32(offset + 4) === 0x45786966 && // "Exif"
+        view.getUint16(offset + 8) === 0;
+      if (isExif) {
+        const tiff = offset + 10;
+        const little = view.getUint16(tiff) === 0x4949; // "II"
+        const ifd = tiff + view.getUint32(tiff + 4, little);
+        const entries = view.getUint16(ifd, little);
+        for (let i = 0; i < entries; i++) {
+          const entry = ifd + 2 + i * 12;
+          if (view.getUint16(entry, little) === ORIENTATION_TAG) {
+            const value = view.getUint16(entry + 8, little);
+            return value >= 1 && value <= 8 ? value as Orientation : 1;
+          }
+        }
+        return 1;
+      }
+      offset += 2 + length;
+    }
+  } catch {
+    // Truncated segment; treat as having no orientation
+  }
+  return 1;
+}
+
+export const swapsDimensions = (orientation: Orientation) => orientation >= 5;
+
+// Canvas transform that draws an image stored with `orientation` upright.
+// `width` and `height` are the stored (not upright) size; the canvas must
+// be sized to the upright size.
+export function orientationTransform(
+  orientation: Orientation,
+  width: number,
+  height: number
+): [number, number, number, number, number, number] {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, width, 0];
+    case 3: return [-1, 0, 0, -1, width, height];
+    case 4: return [1, 0, 0, -1, 0, height];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, height, 0];
+    case 7: return [0, -1, -1, 0, height, width];
+    case 8: return [0, -1, 1, 0, 0, width];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+}
+
+// Turns decoded pixels upright, for decoders that ignore the tag
+export function orientPixels(pixels: PixelData, orientation: Orientation): PixelData {
+  if (orientation === 1) return pixels;
+
+  const { width, height, data } = pixels;
+  const outWidth = swapsDimensions(orientation) ? height : width;
+  const outHeight = swapsDimensions(orientation) ? width : height;
+  const out = new Uint8Array(width * height * 4);
+  const [a, b, c, d, e, f] = orientationTransform(orientation, width, height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Map pixel centers, then back to the pixel they land in
+      const outX = Math.floor(a * (x + 0.5) + c * (y + 0.5) + e);
+      const outY = Math.floor(b * (x + 0.5) + d * (y + 0.5) + f);
+      const from = (y * width + x) * 4;
+      const to = (outY * outWidth + outX) * 4;
+      out[to] = data[from];
+      out[to + 1] = data[from + 1];
+      out[to + 2] = data[from + 2];
+      out[to + 3] = data[from + 3];
+    }
+  }
+  return { data: out, width: outWidth, height: outHeight };
+}
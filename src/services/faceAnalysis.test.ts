@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FaceAnalysisError } from './errors';
+import { analyzeMeasuredFaces, measureDetectedFace } from './faceAnalysis';
+import type { PixelData } from './pixels';
+
+// A level, frontal face as MediaPipeFaceDetector reports it
+const box = { xMin: 100, yMin: 100, width: 200, height: 260, xMax: 300, yMax: 360 };
+const keypoints = [
+  { x: 235, y: 190, name: 'rightEye' },
+  { x: 165, y: 190, name: 'leftEye' },
+  { x: 200, y: 235, name: 'noseTip' },
+  { x: 200, y: 275, name: 'mouthCenter' },
+  { x: 290, y: 215, name: 'rightEarTragion' },
+  { x: 110, y: 215, name: 'leftEarTragion' }
+];
+
+describe('measureDetectedFace', () => {
+  it('measures from the keypoints the detector reports', () => {
+    const { measurements } = measureDetectedFace(box, keypoints);
+    assert.deepEqual(measurements.methods, {
+      faceWidth: 'boundingBox',
+      faceHeight: 'boundingBox',
+      foreheadWidth: 'keypoints',
+      jawWidth: 'keypoints',
+      chinLength: 'keypoints'
+    });
+    // 0.6 of the 180px between the tragions, drawn through the mouth
+    assert.ok(Math.abs(measurements.jawWidth - 108) < 1e-6);
+    const [from, to] = measurements.lines.jawWidth;
+    assert.equal(from[1], 275);
+    assert.equal(to[1], 275);
+  });
+
+  it('counts every keypoint the detector reports toward coverage', () => {
+    assert.equal(measureDetectedFace(box, keypoints).coverage, 1);
+    assert.equal(measureDetectedFace(box, keypoints.slice(0, 3)).coverage, 0.5);
+  });
+
+  it('falls back to the eyes for the jaw without the ears', () => {
+    const { measurements } = measureDetectedFace(box, keypoints.filter(k => !k.name.endsWith('Tragion')));
+    assert.equal(measurements.methods.jawWidth, 'keypoints');
+    assert.ok(Math.abs(measurements.jawWidth - 70 * 1.3) < 1e-6);
+  });
+
+  it('falls back to the box without keypoints', () => {
+    const { measurements } = measureDetectedFace(box, []);
+    assert.equal(measurements.methods.jawWidth, 'boundingBox');
+    assert.equal(measurements.methods.chinLength, 'boundingBox');
+  });
+});
+
+// A gray photo with a face-sized patch of `color` in each box
+function photo(faces: { box: typeof box; color: [number, number, number] }[]): PixelData {
+  const width = 400;
+  const height = 400;
+  const data = new Uint8ClampedArray(width * height * 4).fill(128);
+  faces.forEach(({ box, color }) => {
+    for (let y = box.yMin; y < box.yMax; y++) {
+      for (let x = box.xMin; x < box.xMax; x++) {
+        data.set(color, (y * width + x) * 4);
+      }
+    }
+  });
+  return { data, width, height };
+}
+
+// `box` and its keypoints shrunk by `scale` and moved to `x`, `y`
+function smallFace(x: number, y: number, scale: number) {
+  const moved = (px: number, py: number) => ({ x: x + (px - box.xMin) * scale, y: y + (py - box.yMin) * scale });
+  const { x: xMin, y: yMin } = moved(box.xMin, box.yMin);
+  const { x: xMax, y: yMax } = moved(box.xMax, box.yMax);
+  return {
+    box: { xMin, yMin, xMax, yMax, width: xMax - xMin, height: yMax - yMin },
+    keypoints: keypoints.map(k => ({ ...moved(k.x, k.y), name: k.name }))
+  };
+}
+
+describe('analyzeMeasuredFaces', () => {
+  const skin: [number, number, number] = [224, 172, 140];
+  const shadow: [number, number, number] = [8, 8, 8];
+  const background = smallFace(10, 10, 0.3);
+
+  it('leaves out a background face without readable skin', () => {
+    const pixels = photo([{ box, color: skin }, { box: background.box, color: shadow }]);
+    const faces = [measureDetectedFace(box, keypoints), measureDetectedFace(background.box, background.keypoints)];
+    const results = analyzeMeasuredFaces(pixels, faces, {}, {}, 'cpu');
+    assert.equal(results.length, 1);
+    assert.deepEqual(results[0].box, { xMin: 100, yMin: 100, width: 200, height: 260 });
+  });
+
+  it('fails when the main face has no readable skin', () => {
+    const pixels = photo([{ box, color: shadow }, { box: background.box, color: skin }]);
+    const faces = [measureDetectedFace(box, keypoints), measureDetectedFace(background.box, background.keypoints)];
+    assert.throws(
+      () => analyzeMeasuredFaces(pixels, faces, {}, {}, 'cpu'),
+      (error: unknown) => error instanceof FaceAnalysisError && error.code === 'NO_SKIN_VISIBLE'
+    );
+  });
+});
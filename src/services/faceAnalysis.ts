@@ -1,298 +1,597 @@
 import * as tf from '@tensorflow/tfjs';
 import * as faceDetection from '@tensorflow-models/face-detection';
+import * as faceLandmarksDetection from '@tensorflow-models/face-landmarks-detection';
 import '@tensorflow/tfjs-backend-webgl';
-
-interface FaceAnalysisResult {
-  faceShape: string;
-  skinTone: string;
-  recommendations: string[];
-  measurements: {
-    faceWidth: number;
-    faceHeight: number;
-    foreheadWidth: number;
-    jawWidth: number;
-    chinLength: number;
+import { setWasmPaths, version_wasm } from '@tensorflow/tfjs-backend-wasm';
+import { FaceAnalysisResult, Measurements, RESULT_SCHEMA_VERSION } from './analysisResult';
+import { analyzeColors } from './colorAnalysis';
+import { FaceAnalysisError } from './errors';
+import { FacialFeatures, analyzeFeatures } from './facialFeatures';
+import { FaceShapeDetails, scoreFaceShape } from './faceShape';
+import {
+  FaceAnchors,
+  FaceBox,
+  Point,
+  Segment,
+  distance,
+  midpoint,
+  mirrorBox,
+  mirrorPoint,
+  primaryFaceIndex,
+  scaleSegment
+} from './geometry';
+import { HeadPose, correctedLength, estimateHeadPose, poseConfidence } from './headPose';
+import { assessQuality } from './imageQuality';
+import { AnalysisInput, PixelData, isPixelData, readPixels, toImageTensor } from './pixels';
+import { DEFAULT_RULE_CATALOG, Recommendation, RuleCatalog, recommend } from './recommendations';
+import { SkinSample, SkinToneDetails, sampleSkin, skinToneFromSamples, skinToneLabel } from './skinTone';
+import { ClassifierThresholds, DEFAULT_THRESHOLDS, SkinToneThresholds } from './thresholds';
+import {
+  WhiteBalance,
+  WhiteBalanceMode,
+  applyWhiteBalance,
+  assessLighting,
+  estimateWhiteBalance
+} from './whiteBalance';
+
+export { RESULT_SCHEMA_VERSION, parseAnalysisResult } from './analysisResult';
+export type { FaceAnalysisResult, MeasurementMethod } from './analysisResult';
+export type { AnalysisInput, PixelData } from './pixels';
+
+export interface FaceAnalysisOptions {
+  // Measure from the MediaPipe face mesh when it finds a face, falling back
+  // to the face detector keypoints otherwise.
+  useLandmarks?: boolean;
+  // Most faces to detect per image. Defaults to 1.
+  maxFaces?: number;
+  // Recommendation rules to apply instead of the bundled catalog
+  ruleCatalog?: RuleCatalog;
+  // Where to load model weights from instead of TF Hub: a model.json URL
+  // or a tfjs IOHandler (e.g. reading from disk on the server)
+  modelUrls?: {
+    detector?: string | tf.io.IOHandler;
+    landmarks?: string | tf.io.IOHandler;
   };
-  confidence: number;
+  // tfjs backend to run on. By default the first of WebGL, WASM and CPU
+  // that initializes is used.
+  backend?: string;
+  // Where the WASM backend loads its .wasm binaries from
+  wasmPath?: string;
+  // Classifier cutoffs to use instead of the bundled calibration
+  thresholds?: ClassifierThresholds;
+  // How to correct the photo's white balance before reading colors.
+  // Defaults to 'auto'.
+  whiteBalance?: WhiteBalanceMode;
 }
 
-export class FaceAnalysisService {
-  private model: faceDetection.FaceDetector | null = null;
+// Checks for a single analyzeFaces call, on top of the service options
+export interface AnalyzeOptions {
+  // Fail with MULTIPLE_FACES rather than analyzing every face found
+  singleFace?: boolean;
+  // Fail with LOW_QUALITY when the main face fails a quality check
+  rejectLowQuality?: boolean;
+}
 
-  async initialize() {
-    if (!this.model) {
-      await tf.ready();
-      // Initialize face detector
-      this.model = await faceDetection.createDetector(
-        faceDetection.SupportedModels.MediaPipeFaceDetector,
-        {
-          runtime: 'tfjs',
-          maxFaces: 1
-        }
-      );
-    }
+// What initialize() is loading, and roughly how far along it is overall (0-1)
+export interface LoadProgress {
+  stage: 'backend' | 'detector' | 'landmarks' | 'ready';
+  fraction: number;
+}
+
+export interface MeasuredFace {
+  measurements: FaceAnalysisResult['measurements'];
+  // Share of the points the measurements needed that were actually found
+  coverage: number;
+  anchors: FaceAnchors;
+  pose: HeadPose | null;
+  // Only read from the face mesh
+  features: FacialFeatures | null;
+}
+
+// MediaPipe face mesh landmark indices used for measuring.
+// See https://github.com/tensorflow/tfjs-models/tree/master/face-landmarks-detection
+const MESH_LANDMARKS = {
+  foreheadTop: 10,
+  chin: 152,
+  lowerLip: 17,
+  leftTemple: 54,
+  rightTemple: 284,
+  leftCheekbone: 234,
+  rightCheekbone: 454,
+  leftJaw: 172,
+  rightJaw: 397,
+  // Eye corners, averaged into an eye center
+  leftEyeOuter: 263,
+  leftEyeInner: 362,
+  rightEyeOuter: 33,
+  rightEyeInner: 133,
+  noseTip: 1,
+  mouthCenter: 13
+};
+
+// Tried in order when no backend is configured
+const BACKEND_FALLBACKS = ['webgl', 'wasm', 'cpu'];
+
+const DEFAULT_WASM_PATH = `https://cdn.jsdelivr.net/npm/@tensorflow/tfjs-backend-wasm@${version_wasm}/dist/`;
+
+// The skin tone of the photo as taken, or undefined when its colors are too
+// far off to pass as skin
+function uncorrectedSkinTone(samples: SkinSample[], thresholds: SkinToneThresholds) {
+  try {
+    const { regions: _, ...details } = skinToneFromSamples(samples, thresholds);
+    return details;
+  } catch (error) {
+    if (error instanceof FaceAnalysisError) return undefined;
+    throw error;
   }
+}
 
-  async analyzeFace(imageElement: HTMLImageElement): Promise<FaceAnalysisResult> {
-    if (!this.model) {
-      throw new Error('Model not initialized');
-    }
+// Moves every position in a result with `point` and `box`, leaving the
+// rest alone
+function mapGeometry(
+  result: FaceAnalysisResult,
+  point: (point: Point) => Point,
+  box: (box: FaceBox) => FaceBox
+): FaceAnalysisResult {
+  const optional = (value?: Point) => value && point(value);
+  const { anchors, skinToneDetails, lighting } = result;
+
+  return {
+    ...result,
+    box: box(result.box),
+    anchors: {
+      box: box(anchors.box),
+      leftEye: optional(anchors.leftEye),
+      rightEye: optional(anchors.rightEye),
+      noseTip: optional(anchors.noseTip),
+      mouthCenter: optional(anchors.mouthCenter),
+      leftEar: optional(anchors.leftEar),
+      rightEar: optional(anchors.rightEar)
+    },
+    measurements: {
+      ...result.measurements,
+      lines: Object.fromEntries(Object.entries(result.measurements.lines)
+        .map(([name, [from, to]]) => [name, [point(from), point(to)]])
+      ) as FaceAnalysisResult['measurements']['lines']
+    },
+    skinToneDetails: {
+      ...skinToneDetails,
+      regions: skinToneDetails.regions.map(region => {
+        const moved = box({ xMin: region.x, yMin: region.y, width: region.width, height: region.height });
+        return { ...region, x: moved.xMin, y: moved.yMin, width: moved.width, height: moved.height };
+      })
+    },
+    lighting: lighting && { ...lighting, card: lighting.card && box(lighting.card) }
+  };
+}
+
+// Flips a result computed on an unmirrored frame so it lines up with the
+// horizontally mirrored version of that frame (e.g. a selfie capture).
+export function mirrorAnalysisResult(result: FaceAnalysisResult, imageWidth: number): FaceAnalysisResult {
+  const mirrored = mapGeometry(
+    result,
+    point => mirrorPoint(point, imageWidth),
+    box => mirrorBox(box, imageWidth)
+  );
+  // Roll and yaw are measured toward image right, which the flip reverses
+  const { pose } = result;
+  return { ...mirrored, pose: pose && { ...pose, roll: -pose.roll, yaw: -pose.yaw } };
+}
 
-    // Detect faces
-    const faces = await this.model.estimateFaces(imageElement, {
-      flipHorizontal: false
-    });
-    
-    if (faces.length === 0) {
-      throw new Error('No face detected in the image. Please try again with a clearer photo.');
+// Scales a result computed on a resized copy of a photo to the photo's own
+// size. Pixel measurements scale with it; ratios and labels don't change.
+export function scaleAnalysisResult(result: FaceAnalysisResult, factor: number): FaceAnalysisResult {
+  if (factor === 1) return result;
+  const scaled = mapGeometry(
+    result,
+    ([x, y]) => [x * factor, y * factor],
+    box => ({
+      xMin: box.xMin * factor,
+      yMin: box.yMin * factor,
+      width: box.width * factor,
+      height: box.height * factor
+    })
+  );
+  const { measurements } = scaled;
+  return {
+    ...scaled,
+    measurements: {
+      ...measurements,
+      faceWidth: measurements.faceWidth * factor,
+      faceHeight: measurements.faceHeight * factor,
+      foreheadWidth: measurements.foreheadWidth * factor,
+      jawWidth: measurements.jawWidth * factor,
+      chinLength: measurements.chinLength * factor
     }
+  };
+}
 
-    const face = faces[0];
-    const keypoints = face.keypoints;
-    const box = face.box;
-    const { measurements, confidence } = this.calculateMeasurements(box, keypoints);
-    
-    const faceShape = this.determineFaceShape(measurements);
-    const skinTone = await this.analyzeSkinTone(imageElement);
-    const recommendations = this.generateRecommendations(faceShape, skinTone);
+// Keypoints MediaPipeFaceDetector reports for each face
+const DETECTOR_KEYPOINTS = ['leftEye', 'rightEye', 'noseTip', 'mouthCenter', 'leftEarTragion', 'rightEarTragion'];
 
-    return {
-      faceShape,
-      skinTone,
-      recommendations,
-      measurements,
-      confidence
-    };
-  }
+// The jaw's width relative to the span between the ear tragions, or
+// between the eye centers. An average face then gets a jaw as wide as its
+// forehead, taken as 1.3 eye spans, as it does on the face mesh.
+const JAW_TO_TRAGIONS = 0.6;
+const JAW_TO_EYES = 1.3;
 
-  private calculateMeasurements(box: { width: number; height: number }, keypoints: faceDetection.Keypoint[]) {
-    // Find key facial points
-    const leftEye = keypoints.find(k => k.name === 'leftEye');
-    const rightEye = keypoints.find(k => k.name === 'rightEye');
-    const nose = keypoints.find(k => k.name === 'noseTip');
-    const mouth = keypoints.find(k => k.name === 'mouth');
-    const leftCheek = keypoints.find(k => k.name === 'leftCheek');
-    const rightCheek = keypoints.find(k => k.name === 'rightCheek');
-
-    // Calculate base measurements
-    const faceWidth = box.width;
-    const faceHeight = box.height;
-
-    // Calculate distances between key points
-    const eyeDistance = leftEye && rightEye ? 
-      this.distance([leftEye.x, leftEye.y], [rightEye.x, rightEye.y]) : faceWidth * 0.4;
-
-    const foreheadWidth = eyeDistance * 1.3;
-    const jawWidth = (leftCheek && rightCheek) ?
-      this.distance([leftCheek.x, leftCheek.y], [rightCheek.x, rightCheek.y]) * 0.9 :
-      faceWidth * 0.85;
-
-    const chinLength = (nose && mouth) ?
-      this.distance([nose.x, nose.y], [mouth.x, mouth.y]) * 1.5 :
-      faceHeight * 0.2;
-
-    // Calculate confidence based on available keypoints
-    const keyPointsFound = [leftEye, rightEye, nose, mouth, leftCheek, rightCheek]
-      .filter(point => point !== undefined).length;
-    const confidence = keyPointsFound / 6; // 6 is total number of key points we look for
+// `segment` moved so its middle lands on `center`
+function centerSegment([from, to]: Segment, center: Point): Segment {
+  const [x, y] = midpoint(from, to);
+  const [dx, dy] = [center[0] - x, center[1] - y];
+  return [[from[0] + dx, from[1] + dy], [to[0] + dx, to[1] + dy]];
+}
 
-    return {
-      measurements: {
-        faceWidth,
-        faceHeight,
-        foreheadWidth,
-        jawWidth,
-        chinLength
+function detectorAnchors(box: faceDetection.Face['box'], keypoints: faceDetection.Keypoint[]): FaceAnchors {
+  const point = (name: string): Point | undefined => {
+    const keypoint = keypoints.find(k => k.name === name);
+    return keypoint ? [keypoint.x, keypoint.y] : undefined;
+  };
+
+  return {
+    box,
+    leftEye: point('leftEye'),
+    rightEye: point('rightEye'),
+    noseTip: point('noseTip'),
+    mouthCenter: point('mouthCenter'),
+    leftEar: point('leftEarTragion'),
+    rightEar: point('rightEarTragion')
+  };
+}
+
+// Measures a face from the MediaPipe face detector's box and its six
+// keypoints: the eyes, the nose tip, the mouth center and the ear tragions
+export function measureDetectedFace(box: faceDetection.Face['box'], keypoints: faceDetection.Keypoint[]): MeasuredFace {
+  const anchors = detectorAnchors(box, keypoints);
+  const { leftEye, rightEye, noseTip: nose, mouthCenter: mouth, leftEar, rightEar } = anchors;
+
+  // Calculate base measurements
+  const faceWidth = box.width;
+  const faceHeight = box.height;
+
+  // Lines across the box at a given share of its height, and from the
+  // bottom of the box upwards, for measurements estimated from the box
+  const centerX = box.xMin + faceWidth / 2;
+  const across = (heightShare: number, widthShare: number): Segment => {
+    const y = box.yMin + faceHeight * heightShare;
+    const half = (faceWidth * widthShare) / 2;
+    return [[centerX - half, y], [centerX + half, y]];
+  };
+  const bottom = box.yMin + faceHeight;
+
+  // The jaw is scaled from the ears, or failing that the eyes, and moved
+  // down to the mouth, level with the angles of the jaw
+  const jawSpan = leftEar && rightEar
+    ? scaleSegment(leftEar, rightEar, JAW_TO_TRAGIONS)
+    : leftEye && rightEye ? scaleSegment(leftEye, rightEye, JAW_TO_EYES) : null;
+  const jaw = jawSpan && mouth ? centerSegment(jawSpan, mouth) : jawSpan;
+
+  // Each measurement is the length of its line: spans between keypoints
+  // scaled to the feature they stand in for, or shares of the box
+  const lines: Record<keyof Measurements, Segment> = {
+    faceWidth: across(0.5, 1),
+    faceHeight: [[centerX, box.yMin], [centerX, bottom]],
+    foreheadWidth: leftEye && rightEye ? scaleSegment(leftEye, rightEye, 1.3) : across(0.25, 0.52),
+    jawWidth: jaw ?? across(0.8, 0.85),
+    chinLength: nose && mouth ?
+      [nose, [nose[0] + (mouth[0] - nose[0]) * 1.5, nose[1] + (mouth[1] - nose[1]) * 1.5]] :
+      [[centerX, bottom - faceHeight * 0.2], [centerX, bottom]]
+  };
+  const pose = estimateHeadPose(anchors);
+
+  // Share of the detector's keypoints found. It feeds the confidence, so it
+  // only counts names the detector actually reports.
+  const found = DETECTOR_KEYPOINTS.filter(name => keypoints.some(k => k.name === name)).length;
+  const coverage = found / DETECTOR_KEYPOINTS.length;
+
+  return {
+    measurements: {
+      faceWidth: correctedLength(lines.faceWidth, pose),
+      faceHeight: correctedLength(lines.faceHeight, pose),
+      foreheadWidth: correctedLength(lines.foreheadWidth, pose),
+      jawWidth: correctedLength(lines.jawWidth, pose),
+      chinLength: correctedLength(lines.chinLength, pose),
+      methods: {
+        faceWidth: 'boundingBox',
+        faceHeight: 'boundingBox',
+        foreheadWidth: leftEye && rightEye ? 'keypoints' : 'boundingBox',
+        jawWidth: jaw ? 'keypoints' : 'boundingBox',
+        chinLength: nose && mouth ? 'keypoints' : 'boundingBox'
       },
-      confidence
-    };
-  }
+      lines
+    },
+    coverage,
+    anchors,
+    pose,
+    features: null
+  };
+}
 
-  private distance(point1: number[], point2: number[]) {
-    return Math.sqrt(
-      Math.pow(point2[0] - point1[0], 2) + 
-      Math.pow(point2[1] - point1[1], 2)
+// Reads everything but the geometry for one measured face: shape, skin
+// tone, colors, quality and recommendations
+function analyzeMeasuredFace(
+  { measurements, coverage, anchors, pose, features }: MeasuredFace,
+  photo: { pixels: PixelData; corrected: PixelData; whiteBalance: WhiteBalance },
+  options: FaceAnalysisOptions,
+  backend: string
+): FaceAnalysisResult {
+  const { pixels, corrected, whiteBalance } = photo;
+  const thresholds = options.thresholds ?? DEFAULT_THRESHOLDS;
+  const faceShapeDetails = scoreFaceShape(measurements, thresholds.faceShape);
+  const faceShape = faceShapeDetails.top[0].shape;
+  // Quality and lighting are judged on the photo as taken
+  const rawSamples = sampleSkin(pixels, anchors);
+  const skinSamples = corrected === pixels ? rawSamples : sampleSkin(corrected, anchors);
+  const quality = assessQuality(pixels, anchors, rawSamples);
+  const lighting = assessLighting(whiteBalance, rawSamples);
+  const skinToneDetails: SkinToneDetails = {
+    ...skinToneFromSamples(skinSamples, thresholds.skinTone),
+    uncorrected: uncorrectedSkinTone(rawSamples, thresholds.skinTone)
+  };
+  const skinTone = skinToneLabel(skinToneDetails);
+  const colorAnalysis = analyzeColors(corrected, anchors, skinToneDetails, thresholds.skinTone);
+  const catalog = options.ruleCatalog ?? DEFAULT_RULE_CATALOG;
+  const recommendations = recommend({ faceShape, skinToneDetails, measurements, features }, catalog);
+
+  return {
+    schemaVersion: RESULT_SCHEMA_VERSION,
+    box: {
+      xMin: anchors.box.xMin,
+      yMin: anchors.box.yMin,
+      width: anchors.box.width,
+      height: anchors.box.height
+    },
+    anchors,
+    pose,
+    faceShape,
+    faceShapeDetails,
+    skinTone,
+    skinToneDetails,
+    features,
+    lighting,
+    colorAnalysis,
+    recommendations,
+    recommendationRulesVersion: catalog.version,
+    measurements,
+    confidence: coverage * faceShapeDetails.margin * poseConfidence(pose),
+    quality,
+    backend
+  };
+}
+
+// Turns the faces measured on a photo into results, in detection order. A
+// face whose skin can't be read, e.g. one in shadow at the edge of a group
+// photo, is left out rather than failing the photo; only the main face
+// failing fails it.
+export function analyzeMeasuredFaces(
+  pixels: PixelData,
+  faces: MeasuredFace[],
+  options: FaceAnalysisOptions = {},
+  checks: AnalyzeOptions,
+  backend: string
+): FaceAnalysisResult[] {
+  if (faces.length === 0) {
+    throw new FaceAnalysisError('NO_FACE', 'No face detected in the image. Please try again with a clearer photo.');
+  }
+  if (checks.singleFace && faces.length > 1) {
+    throw new FaceAnalysisError(
+      'MULTIPLE_FACES',
+      `Found ${faces.length} faces. Please use a photo with only one person in it.`
     );
   }
 
-  private determineFaceShape(measurements: {
-    faceWidth: number;
-    faceHeight: number;
-    foreheadWidth: number;
-    jawWidth: number;
-    chinLength: number;
-  }): string {
-    const {
-      faceWidth,
-      faceHeight,
-      foreheadWidth,
-      jawWidth,
-      chinLength
-    } = measurements;
-
-    // Calculate key ratios
-    const lengthToWidthRatio = faceHeight / faceWidth;
-    const foreheadToJawRatio = foreheadWidth / jawWidth;
-    const widthToHeightRatio = faceWidth / faceHeight;
-    const chinRatio = chinLength / faceHeight;
-
-    // Determine face shape based on ratios
-    if (lengthToWidthRatio >= 1.75) {
-      return "Oblong";
+  // One light for the whole photo, estimated away from every face
+  const whiteBalance = estimateWhiteBalance(
+    pixels,
+    faces.map(face => face.anchors.box),
+    options.whiteBalance
+  );
+  const photo = { pixels, corrected: applyWhiteBalance(pixels, whiteBalance), whiteBalance };
+
+  const primary = primaryFaceIndex(faces.map(face => face.anchors.box), pixels.width, pixels.height);
+  const results = faces.flatMap((face, index) => {
+    try {
+      return [analyzeMeasuredFace(face, photo, options, backend)];
+    } catch (error) {
+      const unreadable = error instanceof FaceAnalysisError && error.code === 'NO_SKIN_VISIBLE';
+      if (!unreadable || index === primary) throw error;
+      console.warn(`Leaving out face ${index + 1}:`, error.message);
+      return [];
     }
-
-    if (lengthToWidthRatio < 1.25 && Math.abs(foreheadToJawRatio - 1) < 0.1) {
-      return "Round";
+  });
+
+  if (checks.rejectLowQuality) {
+    const main = results[primaryFaceIndex(results.map(result => result.box), pixels.width, pixels.height)];
+    const failed = main.quality.checks.find(check => check.status === 'fail');
+    if (failed) {
+      const advice = [failed.message, failed.guidance].filter(Boolean).map(text => `${text}.`).join(' ');
+      throw new FaceAnalysisError('LOW_QUALITY', advice);
     }
+  }
+  return results;
+}
+
+export class FaceAnalysisService {
+  private model: faceDetection.FaceDetector | null = null;
+  private meshModel: faceLandmarksDetection.FaceLandmarksDetector | null = null;
+  private options: FaceAnalysisOptions;
 
-    if (foreheadToJawRatio < 0.9) {
-      if (chinRatio < 0.15) {
-        return "Triangle";
+  constructor(options: FaceAnalysisOptions = {}) {
+    this.options = options;
+  }
+
+  async initialize(onProgress?: (progress: LoadProgress) => void) {
+    if (!this.model) {
+      onProgress?.({ stage: 'backend', fraction: 0 });
+      await this.selectBackend();
+      onProgress?.({ stage: 'detector', fraction: 0.1 });
+      // Initialize face detector
+      try {
+        this.model = await faceDetection.createDetector(
+          faceDetection.SupportedModels.MediaPipeFaceDetector,
+          {
+            runtime: 'tfjs',
+            maxFaces: this.options.maxFaces ?? 1,
+            detectorModelUrl: this.options.modelUrls?.detector
+          }
+        );
+      } catch (error) {
+        console.error('Face detector failed to load:', error);
+        throw new FaceAnalysisError(
+          'MODEL_LOAD_FAILED',
+          'The face analysis models could not be loaded. Please check your connection and try again.'
+        );
       }
-      return "Diamond";
     }
 
-    if (foreheadToJawRatio > 1.1) {
-      if (chinRatio < 0.15) {
-        return "Heart";
+    if (this.options.useLandmarks && !this.meshModel) {
+      onProgress?.({ stage: 'landmarks', fraction: 0.5 });
+      try {
+        this.meshModel = await faceLandmarksDetection.createDetector(
+          faceLandmarksDetection.SupportedModels.MediaPipeFaceMesh,
+          {
+            runtime: 'tfjs',
+            maxFaces: this.options.maxFaces ?? 1,
+            refineLandmarks: false,
+            detectorModelUrl: this.options.modelUrls?.detector,
+            landmarkModelUrl: this.options.modelUrls?.landmarks
+          }
+        );
+      } catch (error) {
+        // The detector path still works without the mesh
+        console.warn('Face mesh model failed to load, using detector keypoints:', error);
       }
-      return "Inverted Triangle";
     }
+    onProgress?.({ stage: 'ready', fraction: 1 });
+  }
 
-    if (widthToHeightRatio > 0.65 && widthToHeightRatio < 0.75) {
-      if (Math.abs(foreheadToJawRatio - 1) < 0.1) {
-        return "Square";
+  private async selectBackend() {
+    const candidates = this.options.backend ? [this.options.backend] : BACKEND_FALLBACKS;
+    for (const name of candidates) {
+      if (name === 'wasm') {
+        setWasmPaths(this.options.wasmPath ?? DEFAULT_WASM_PATH);
+      }
+      try {
+        // setBackend resolves false when the backend fails to initialize
+        if (await tf.setBackend(name)) {
+          await tf.ready();
+          return;
+        }
+      } catch (error) {
+        console.warn(`tfjs backend ${name} is unavailable:`, error);
       }
     }
-
-    // Default to Oval if no other shape matches
-    return "Oval";
+    throw new FaceAnalysisError(
+      'BACKEND_UNAVAILABLE',
+      `This browser can't run the face analysis (tried ${candidates.join(', ')}). Please try another browser or device.`
+    );
   }
 
-  private async analyzeSkinTone(imageElement: HTMLImageElement): Promise<string> {
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) throw new Error('Could not get canvas context');
-
-    canvas.width = imageElement.width;
-    canvas.height = imageElement.height;
-    ctx.drawImage(imageElement, 0, 0);
-
-    // Sample from the center of the face
-    const centerX = Math.floor(canvas.width / 2);
-    const centerY = Math.floor(canvas.height / 2);
-    const sampleSize = 50;
-    const imageData = ctx.getImageData(
-      centerX - sampleSize/2,
-      centerY - sampleSize/2,
-      sampleSize,
-      sampleSize
-    );
+  async analyzeFace(input: AnalysisInput | PixelData, checks: AnalyzeOptions = {}): Promise<FaceAnalysisResult> {
+    const pixels = isPixelData(input) ? input : readPixels(input);
+    const results = await this.analyzeFaces(pixels, checks);
+    const primary = primaryFaceIndex(results.map(result => result.box), pixels.width, pixels.height);
+    return results[primary];
+  }
 
-    // Calculate average RGB values
-    let r = 0, g = 0, b = 0;
-    for (let i = 0; i < imageData.data.length; i += 4) {
-      r += imageData.data[i];
-      g += imageData.data[i + 1];
-      b += imageData.data[i + 2];
+  // Analyzes every detected face, up to `maxFaces`, in detection order.
+  // Browser elements are read through a canvas; anything else must already
+  // be decoded to RGBA pixels, which is how the server calls this.
+  async analyzeFaces(input: AnalysisInput | PixelData, checks: AnalyzeOptions = {}): Promise<FaceAnalysisResult[]> {
+    if (!this.model) {
+      throw new Error('Model not initialized');
     }
 
-    const pixelCount = imageData.data.length / 4;
-    r = Math.round(r / pixelCount);
-    g = Math.round(g / pixelCount);
-    b = Math.round(b / pixelCount);
-
-    return this.classifySkinTone(r, g, b);
+    const pixels = isPixelData(input) ? input : readPixels(input);
+    const faces = await this.measureFaces(pixels);
+    return analyzeMeasuredFaces(pixels, faces, this.options, checks, tf.getBackend());
   }
 
-  private classifySkinTone(r: number, g: number, b: number): string {
-    const brightness = (r + g + b) / 3;
-    const warmth = r - b;
+  private async measureFaces(pixels: PixelData): Promise<MeasuredFace[]> {
+    const image = toImageTensor(pixels);
+    try {
+      if (this.meshModel) {
+        const meshFaces = await this.meshModel.estimateFaces(image, {
+          flipHorizontal: false,
+          staticImageMode: true
+        });
+        const measured = meshFaces
+          .map(face => this.measureWithLandmarks(face))
+          .filter((face): face is MeasuredFace => face !== null);
+        if (measured.length > 0) return measured;
+      }
 
-    if (brightness > 200) return "Fair";
-    if (brightness > 170) {
-      return warmth > 60 ? "Warm Light" : "Cool Light";
-    }
-    if (brightness > 140) {
-      return warmth > 40 ? "Warm Medium" : "Cool Medium";
+      // Detect faces
+      const faces = await this.model!.estimateFaces(image, {
+        flipHorizontal: false
+      });
+      return faces.map(face => measureDetectedFace(face.box, face.keypoints));
+    } finally {
+      image.dispose();
     }
-    if (brightness > 100) {
-      return warmth > 30 ? "Warm Deep" : "Cool Deep";
-    }
-    return "Deep";
   }
 
-  private generateRecommendations(faceShape: string, skinTone: string): string[] {
-    const recommendations: string[] = [];
+  private measureWithLandmarks(face: faceLandmarksDetection.Face): MeasuredFace | null {
+    const { keypoints, box } = face;
+    const point = (index: number): Point | null => {
+      const keypoint = keypoints[index];
+      return keypoint ? [keypoint.x, keypoint.y] : null;
+    };
+    const span = (from: number, to: number): Segment | null => {
+      const a = point(from);
+      const b = point(to);
+      return a && b ? [a, b] : null;
+    };
+    const eyeCenter = (outer: number, inner: number) => {
+      const a = point(outer);
+      const b = point(inner);
+      return a && b ? midpoint(a, b) : undefined;
+    };
 
-    // Face shape recommendations
-    switch (faceShape) {
-      case "Oval":
-        recommendations.push(
-          "Your balanced face shape complements most hairstyles",
-          "Try textured layers to enhance your natural harmony",
-          "Both long and short styles work well with your proportions"
-        );
-        break;
-      case "Round":
-        recommendations.push(
-          "Long, layered cuts and side-swept bangs create length",
-          "Avoid blunt bobs that accentuate roundness",
-          "Try volume at the crown to elongate your face"
-        );
-        break;
-      case "Square":
-        recommendations.push(
-          "Soft layers and wispy bangs soften angular features",
-          "Side-parts and waves balance strong jawline",
-          "Avoid blunt cuts that emphasize angles"
-        );
-        break;
-      case "Diamond":
-        recommendations.push(
-          "Side-swept bangs complement your cheekbones",
-          "Chin-length or longer styles balance facial proportions",
-          "Add volume at the forehead and jaw areas"
-        );
-        break;
-      case "Heart":
-        recommendations.push(
-          "Side-swept bangs balance a wider forehead",
-          "Medium-length cuts with layers around the chin",
-          "Avoid styles with too much height at the crown"
-        );
-        break;
-      case "Triangle":
-        recommendations.push(
-          "Volume at the crown balances a wider jaw",
-          "Long layers with face-framing pieces",
-          "Try side-swept bangs and textured ends"
-        );
-        break;
-      case "Oblong":
-        recommendations.push(
-          "Short to medium-length cuts add width",
-          "Side-swept bangs break up length",
-          "Avoid very long or sleek styles"
-        );
-        break;
-    }
+    const lines = {
+      // Cheekbone-to-cheekbone is the widest point of the face
+      faceWidth: span(MESH_LANDMARKS.leftCheekbone, MESH_LANDMARKS.rightCheekbone),
+      faceHeight: span(MESH_LANDMARKS.foreheadTop, MESH_LANDMARKS.chin),
+      foreheadWidth: span(MESH_LANDMARKS.leftTemple, MESH_LANDMARKS.rightTemple),
+      jawWidth: span(MESH_LANDMARKS.leftJaw, MESH_LANDMARKS.rightJaw),
+      chinLength: span(MESH_LANDMARKS.lowerLip, MESH_LANDMARKS.chin)
+    };
+    const { faceWidth, faceHeight, foreheadWidth, jawWidth, chinLength } = lines;
 
-    // Skin tone recommendations
-    if (skinTone.includes("Warm")) {
-      recommendations.push(
-        "Gold and copper jewelry enhances your warm undertones",
-        "Earth-toned and peachy makeup colors suit your complexion",
-        "Try hair colors with golden or copper undertones"
-      );
-    } else {
-      recommendations.push(
-        "Silver and platinum jewelry complements your cool undertones",
-        "Rose and blue-based makeup colors enhance your complexion",
-        "Consider hair colors with ash or cool undertones"
-      );
+    // A partial mesh is not worth mixing with detector estimates
+    if (!faceWidth || !faceHeight || !foreheadWidth || !jawWidth || !chinLength) {
+      return null;
     }
 
-    return recommendations;
+    const anchors: FaceAnchors = {
+      box,
+      leftEye: eyeCenter(MESH_LANDMARKS.leftEyeOuter, MESH_LANDMARKS.leftEyeInner),
+      rightEye: eyeCenter(MESH_LANDMARKS.rightEyeOuter, MESH_LANDMARKS.rightEyeInner),
+      noseTip: point(MESH_LANDMARKS.noseTip) ?? undefined,
+      mouthCenter: point(MESH_LANDMARKS.mouthCenter) ?? undefined
+    };
+    const pose = estimateHeadPose(anchors);
+
+    return {
+      measurements: {
+        faceWidth: correctedLength(faceWidth, pose),
+        faceHeight: correctedLength(faceHeight, pose),
+        foreheadWidth: correctedLength(foreheadWidth, pose),
+        jawWidth: correctedLength(jawWidth, pose),
+        chinLength: correctedLength(chinLength, pose),
+        methods: {
+          faceWidth: 'landmarks',
+          faceHeight: 'landmarks',
+          foreheadWidth: 'landmarks',
+          jawWidth: 'landmarks',
+          chinLength: 'landmarks'
+        },
+        lines: { faceWidth, faceHeight, foreheadWidth, jawWidth, chinLength }
+      },
+      coverage: 1,
+      anchors,
+      pose,
+      features: analyzeFeatures(point, pose)
+    };
   }
 }
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { FaceProportions, FaceShape, MEASUREMENT_RATIOS, MeasurementRatio, measurementRatios } from './proportions';
+import { DEFAULT_THRESHOLDS, FaceShapeThresholds } from './thresholds';
+
+export { FACE_SHAPES } from './proportions';
+export type { FaceShape } from './proportions';
+
+export interface FaceShapeScore {
+  shape: FaceShape;
+  // Share of the distribution, all scores sum to 1
+  probability: number;
+}
+
+export interface FaceShapeDetails {
+  // Every candidate shape, most likely first
+  scores: FaceShapeScore[];
+  top: [FaceShapeScore, FaceShapeScore];
+  // 0 when the top two shapes are tied, 1 when the runner-up is negligible
+  margin: number;
+}
+
+// Scores each shape by how close the face's ratios are to that shape's
+// prototype, measured in units of the expected spread, and normalizes the
+// scores into a distribution.
+export function scoreFaceShape(
+  measurements: FaceProportions,
+  thresholds: FaceShapeThresholds = DEFAULT_THRESHOLDS.faceShape
+): FaceShapeDetails {
+  const ratios = measurementRatios(measurements);
+  const prototypes = Object.entries(thresholds.prototypes) as [FaceShape, Record<MeasurementRatio, number>][];
+  const distances = prototypes.map(([shape, prototype]) => ({
+    shape,
+    distance: MEASUREMENT_RATIOS.reduce(
+      (sum, ratio) => sum + Math.pow((ratios[ratio] - prototype[ratio]) / thresholds.spread[ratio], 2),
+      0
+    )
+  }));
+
+  // Subtracting the nearest distance keeps far-off faces from underflowing
+  // every score to zero
+  const nearest = Math.min(...distances.map(({ distance }) => distance));
+  const weights = distances.map(({ shape, distance }) => ({
+    shape,
+    weight: Number.isFinite(distance) ? Math.exp(-0.5 * (distance - nearest)) : 0
+  }));
+  const total = weights.reduce((sum, { weight }) => sum + weight, 0);
+
+  return rankFaceShapes(
+    weights.map(({ shape, weight }) => ({ shape, probability: total > 0 ? weight / total : 1 / weights.length }))
+  );
+}
+
+// Orders a distribution over shapes, most likely first, and says how
+// clearly the leader beat the runner-up
+export function rankFaceShapes(distribution: FaceShapeScore[]): FaceShapeDetails {
+  const scores = [...distribution].sort((a, b) => b.probability - a.probability);
+  const top: [FaceShapeScore, FaceShapeScore] = [scores[0], scores[1]];
+
+  return {
+    scores,
+    top,
+    margin: top[0].probability > 0 ? 1 - top[1].probability / top[0].probability : 0
+  };
+}
+
+export function classifyFaceShape(
+  measurements: FaceProportions,
+  thresholds: FaceShapeThresholds = DEFAULT_THRESHOLDS.faceShape
+): FaceShape {
+  return scoreFaceShape(measurements, thresholds).top[0].shape;
+}
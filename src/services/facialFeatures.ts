@@ -0,0 +1,230 @@
+import { Point, Segment, distance } from './geometry';
+import { HeadPose, POSE_LIMITS, correctedLength, unroll } from './headPose';
+
+export type EyeShape = 'Narrow' | 'Almond' | 'Round';
+export const EYE_SHAPES: EyeShape[] = ['Narrow', 'Almond', 'Round'];
+
+export type EyeTilt = 'Downturned' | 'Straight' | 'Upturned';
+export const EYE_TILTS: EyeTilt[] = ['Downturned', 'Straight', 'Upturned'];
+
+export type EyeSpacing = 'Close-set' | 'Average' | 'Wide-set';
+export const EYE_SPACINGS: EyeSpacing[] = ['Close-set', 'Average', 'Wide-set'];
+
+export type BrowArch = 'Straight' | 'Soft Arch' | 'High Arch';
+export const BROW_ARCHES: BrowArch[] = ['Straight', 'Soft Arch', 'High Arch'];
+
+export type LipFullness = 'Thin' | 'Medium' | 'Full';
+export const LIP_FULLNESSES: LipFullness[] = ['Thin', 'Medium', 'Full'];
+
+export type NoseWidth = 'Narrow' | 'Medium' | 'Wide';
+export const NOSE_WIDTHS: NoseWidth[] = ['Narrow', 'Medium', 'Wide'];
+
+// Each feature's label along with the value it was read from, so rules and
+// the results screen can use either
+export interface FacialFeatures {
+  eyes: {
+    shape: EyeShape;
+    // Lid opening over corner-to-corner width, both eyes averaged
+    openness: number;
+    tilt: EyeTilt;
+    // Degrees the outer corners sit above the inner ones, relative to the
+    // eye line
+    tiltAngle: number;
+    spacing: EyeSpacing;
+    // Gap between the inner corners over the width of one eye
+    spacingRatio: number;
+  };
+  brows: {
+    arch: BrowArch;
+    // Height of the arch above the line from the inner to the outer end,
+    // over that line's length, both brows averaged
+    archHeight: number;
+  };
+  lips: {
+    fullness: LipFullness;
+    // Upper and lower lip heights together over the mouth width
+    heightToWidth: number;
+  };
+  nose: {
+    width: NoseWidth;
+    // Width across the nostrils over the cheekbone-to-cheekbone width
+    widthToFace: number;
+  };
+  // How closely the left and right sides mirror each other, 0-100. Null
+  // when the head is turned too far for the sides to compare.
+  symmetry: number | null;
+}
+
+// Reads a face mesh landmark, or null when the mesh doesn't have it
+export type LandmarkReader = (index: number) => Point | null;
+
+// MediaPipe face mesh landmark indices, "right" being the person's right,
+// which is the image's left. See MESH_LANDMARKS in faceAnalysis.ts.
+const FEATURE_LANDMARKS = {
+  rightEyeOuter: 33,
+  rightEyeInner: 133,
+  rightEyeTop: 159,
+  rightEyeBottom: 145,
+  leftEyeOuter: 263,
+  leftEyeInner: 362,
+  leftEyeTop: 386,
+  leftEyeBottom: 374,
+  // Upper edge of each brow, from the inner end out
+  rightBrow: [107, 66, 105, 63, 70],
+  leftBrow: [336, 296, 334, 293, 300],
+  upperLipTop: 0,
+  upperLipBottom: 13,
+  lowerLipTop: 14,
+  lowerLipBottom: 17,
+  rightMouthCorner: 61,
+  leftMouthCorner: 291,
+  rightNostril: 129,
+  leftNostril: 358,
+  rightCheekbone: 234,
+  leftCheekbone: 454,
+  foreheadTop: 10,
+  chin: 152
+};
+
+// Right/left landmark pairs compared for symmetry
+const SYMMETRY_PAIRS: [number, number][] = [
+  [33, 263], [133, 362], [159, 386], [145, 374],
+  [70, 300], [105, 334], [107, 336],
+  [234, 454], [172, 397], [54, 284],
+  [61, 291], [129, 358]
+];
+
+// Class boundaries as [lower, upper]: below the first is the first label,
+// above the second the last. Rough starting points from typical adult
+// proportions, not calibrated against labeled photos.
+const LIMITS = {
+  openness: [0.26, 0.36],
+  tiltAngle: [0, 7],
+  spacingRatio: [0.95, 1.2],
+  archHeight: [0.08, 0.15],
+  lipHeightToWidth: [0.28, 0.42],
+  noseWidthToFace: [0.24, 0.3]
+} as const;
+
+// Mean mismatch between mirrored landmarks, as a share of the face width,
+// that scores 0 for symmetry
+const MAX_ASYMMETRY = 0.1;
+
+const classify = <T>(value: number, [lower, upper]: readonly [number, number], labels: T[]) =>
+  value < lower ? labels[0] : value > upper ? labels[2] : labels[1];
+
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+// Degrees `outer` rises above `inner`, measured against the eye line
+function cornerTilt(outer: Point, inner: Point, roll: number) {
+  const [across, down] = unroll([outer[0] - inner[0], outer[1] - inner[1]], roll);
+  return toDegrees(Math.atan2(-down, Math.abs(across)));
+}
+
+// Height of the highest point of a brow above the line joining its ends,
+// over that line's length
+function archHeight(brow: Point[]) {
+  const [start, end] = [brow[0], brow[brow.length - 1]];
+  const length = distance(start, end);
+  if (length === 0) return 0;
+  // Signed distance from the line; which side is up depends on the
+  // direction the brow runs, so take whichever side the middle bows to
+  const offsets = brow.slice(1, -1).map(([x, y]) =>
+    ((end[0] - start[0]) * (start[1] - y) - (start[0] - x) * (end[1] - start[1])) / length
+  );
+  const bow = offsets.reduce((sum, offset) => sum + offset, 0) >= 0 ? 1 : -1;
+  return Math.max(0, ...offsets.map(offset => offset * bow)) / length;
+}
+
+// `point` mirrored across the line through `from` and `to`
+function reflect(point: Point, [from, to]: Segment): Point {
+  const dx = to[0] - from[0];
+  const dy = to[1] - from[1];
+  const t = ((point[0] - from[0]) * dx + (point[1] - from[1]) * dy) / (dx * dx + dy * dy);
+  const foot: Point = [from[0] + t * dx, from[1] + t * dy];
+  return [2 * foot[0] - point[0], 2 * foot[1] - point[1]];
+}
+
+// Mean distance between each right landmark and its mirrored left partner,
+// turned into a 0-100 score
+function symmetryScore(point: LandmarkReader, midline: Segment, faceWidth: number) {
+  const gaps = SYMMETRY_PAIRS.flatMap(([right, left]) => {
+    const a = point(right);
+    const b = point(left);
+    return a && b ? [distance(a, reflect(b, midline)) / faceWidth] : [];
+  });
+  if (gaps.length === 0) return null;
+  const asymmetry = gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length;
+  return Math.round(100 * Math.max(0, 1 - asymmetry / MAX_ASYMMETRY));
+}
+
+// Reads eye, brow, lip, nose and symmetry features from the face mesh.
+// Spans are corrected for the head pose like the face measurements. Null
+// when a landmark any feature needs is missing.
+export function analyzeFeatures(point: LandmarkReader, pose: HeadPose | null): FacialFeatures | null {
+  const marks = FEATURE_LANDMARKS;
+  if (Object.values(marks).flat().some(index => !point(index))) return null;
+
+  const at = (index: number) => point(index)!;
+  const length = (from: number, to: number) => correctedLength([at(from), at(to)], pose);
+
+  const rightEyeWidth = length(marks.rightEyeOuter, marks.rightEyeInner);
+  const leftEyeWidth = length(marks.leftEyeOuter, marks.leftEyeInner);
+  const openness = (
+    length(marks.rightEyeTop, marks.rightEyeBottom) / rightEyeWidth +
+    length(marks.leftEyeTop, marks.leftEyeBottom) / leftEyeWidth
+  ) / 2;
+  const roll = pose?.roll ?? 0;
+  const tiltAngle = (
+    cornerTilt(at(marks.rightEyeOuter), at(marks.rightEyeInner), roll) +
+    cornerTilt(at(marks.leftEyeOuter), at(marks.leftEyeInner), roll)
+  ) / 2;
+  const spacingRatio = length(marks.rightEyeInner, marks.leftEyeInner) / ((rightEyeWidth + leftEyeWidth) / 2);
+
+  const browArch = (archHeight(marks.rightBrow.map(at)) + archHeight(marks.leftBrow.map(at))) / 2;
+  const lipHeight = length(marks.upperLipTop, marks.upperLipBottom) + length(marks.lowerLipTop, marks.lowerLipBottom);
+  const lipHeightToWidth = lipHeight / length(marks.rightMouthCorner, marks.leftMouthCorner);
+  const faceWidth = length(marks.rightCheekbone, marks.leftCheekbone);
+  const noseWidthToFace = length(marks.rightNostril, marks.leftNostril) / faceWidth;
+
+  // The far side of a turned face is foreshortened, so it can't mirror the near one
+  const frontal = !pose || Math.abs(pose.yaw) <= POSE_LIMITS.yaw[0];
+  const midline: Segment = [at(marks.foreheadTop), at(marks.chin)];
+  const imageFaceWidth = distance(at(marks.rightCheekbone), at(marks.leftCheekbone));
+
+  return {
+    eyes: {
+      shape: classify(openness, LIMITS.openness, EYE_SHAPES),
+      openness,
+      tilt: classify(tiltAngle, LIMITS.tiltAngle, EYE_TILTS),
+      tiltAngle,
+      spacing: classify(spacingRatio, LIMITS.spacingRatio, EYE_SPACINGS),
+      spacingRatio
+    },
+    brows: {
+      arch: classify(browArch, LIMITS.archHeight, BROW_ARCHES),
+      archHeight: browArch
+    },
+    lips: {
+      fullness: classify(lipHeightToWidth, LIMITS.lipHeightToWidth, LIP_FULLNESSES),
+      heightToWidth: lipHeightToWidth
+    },
+    nose: {
+      width: classify(noseWidthToFace, LIMITS.noseWidthToFace, NOSE_WIDTHS),
+      widthToFace: noseWidthToFace
+    },
+    symmetry: frontal && imageFaceWidth > 0 ? symmetryScore(point, midline, imageFaceWidth) : null
+  };
+}
+
+// One line per feature for the results screen and reports
+export function describeFeatures(features: FacialFeatures): { label: string; value: string }[] {
+  const { eyes, brows, lips, nose, symmetry } = features;
+  return [
+    { label: 'Eyes', value: `${eyes.shape}, ${eyes.tilt.toLowerCase()}, ${eyes.spacing.toLowerCase()}` },
+    { label: 'Brows', value: brows.arch },
+    { label: 'Lips', value: lips.fullness },
+    { label: 'Nose', value: `${nose.width} (${Math.round(nose.widthToFace * 100)}% of face width)` },
+    { label: 'Symmetry', value: symmetry === null ? 'Face the camera to measure' : `${symmetry}/100` }
+  ];
+}
@@ -0,0 +1,75 @@
+export type Point = [number, number];
+
+// A line between two points, e.g. the span a measurement was taken along
+export type Segment = [Point, Point];
+
+export interface FaceBox {
+  xMin: number;
+  yMin: number;
+  width: number;
+  height: number;
+}
+
+// Named reference points located on a detected face, in image pixels.
+// Filled from the detector keypoints or from the face mesh, whichever
+// produced the analysis. Any point may be missing.
+export interface FaceAnchors {
+  box: FaceBox;
+  leftEye?: Point;
+  rightEye?: Point;
+  noseTip?: Point;
+  mouthCenter?: Point;
+  leftEar?: Point;
+  rightEar?: Point;
+}
+
+export function distance(point1: Point, point2: Point) {
+  return Math.sqrt(
+    Math.pow(point2[0] - point1[0], 2) +
+    Math.pow(point2[1] - point1[1], 2)
+  );
+}
+
+export function midpoint(point1: Point, point2: Point): Point {
+  return [(point1[0] + point2[0]) / 2, (point1[1] + point2[1]) / 2];
+}
+
+// Orders a left/right pair by where it sits in the image, since a face's
+// left eye is on the image's right unless the photo is mirrored
+export const byX = (a: Point, b: Point): [Point, Point] => a[0] <= b[0] ? [a, b] : [b, a];
+
+// The segment through the middle of `from` and `to`, stretched by `scale`
+export function scaleSegment(from: Point, to: Point, scale: number): Segment {
+  const center = midpoint(from, to);
+  const half: Point = [((to[0] - from[0]) * scale) / 2, ((to[1] - from[1]) * scale) / 2];
+  return [[center[0] - half[0], center[1] - half[1]], [center[0] + half[0], center[1] + half[1]]];
+}
+
+// Picks the face the photo is most likely "of": the largest one, discounted
+// by how far its center sits from the middle of the frame.
+export function primaryFaceIndex(boxes: FaceBox[], imageWidth: number, imageHeight: number) {
+  const center: Point = [imageWidth / 2, imageHeight / 2];
+  const maxOffset = distance([0, 0], center) || 1;
+
+  let best = 0;
+  let bestScore = -Infinity;
+  boxes.forEach((box, index) => {
+    const area = box.width * box.height;
+    const boxCenter: Point = [box.xMin + box.width / 2, box.yMin + box.height / 2];
+    const centrality = 1 - distance(boxCenter, center) / maxOffset;
+    const score = area * (0.5 + 0.5 * centrality);
+    if (score > bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+export function mirrorPoint(point: Point, imageWidth: number): Point {
+  return [imageWidth - point[0], point[1]];
+}
+
+export function mirrorBox(box: FaceBox, imageWidth: number): FaceBox {
+  return { ...box, xMin: imageWidth - box.xMin - box.width };
+}
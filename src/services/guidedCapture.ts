@@ -0,0 +1,158 @@
+import type { FaceAnalysisResult } from './faceAnalysis';
+import { FaceBox } from './geometry';
+import { estimateHeadPose } from './headPose';
+
+// Guided selfie capture: an oval the user lines their face up with, checks
+// run on every live frame, and a shutter that fires once the checks have
+// held for a few frames in a row (optionally after a countdown).
+
+export type AlignmentCheckName = 'centered' | 'size' | 'level' | 'still';
+
+export interface AlignmentCheck {
+  name: AlignmentCheckName;
+  ok: boolean;
+  // Short label while ok, what to do about it otherwise
+  message: string;
+}
+
+// The oval in frame pixels
+export interface AlignmentGuide {
+  centerX: number;
+  centerY: number;
+  radiusX: number;
+  radiusY: number;
+}
+
+export type ShutterPhase = 'aligning' | 'countdown' | 'capture';
+
+export interface ShutterState {
+  phase: ShutterPhase;
+  // Aligned frames in a row so far
+  streak: number;
+  // Whole seconds left while counting down
+  secondsLeft: number;
+}
+
+// The oval's height as a share of the frame height, its width relative to
+// its height, and how far down the frame its center sits
+const GUIDE_HEIGHT = 0.62;
+const GUIDE_ASPECT = 0.75;
+const GUIDE_CENTER_Y = 0.48;
+
+// Largest offset of the face center from the oval center, as a share of
+// the oval's radius
+const MAX_CENTER_OFFSET = 0.3;
+// Face box height relative to the oval height
+const SIZE_RANGE = [0.55, 0.95] as const;
+// Degrees
+const MAX_ROLL = 6;
+const MAX_YAW = 12;
+const MAX_PITCH = 12;
+// Largest movement of the face center between frames, as a share of the
+// face box width
+const MAX_MOVEMENT = 0.06;
+
+export function alignmentGuide(width: number, height: number): AlignmentGuide {
+  const radiusY = (height * GUIDE_HEIGHT) / 2;
+  return {
+    centerX: width / 2,
+    centerY: height * GUIDE_CENTER_Y,
+    radiusX: radiusY * GUIDE_ASPECT,
+    radiusY
+  };
+}
+
+const boxCenter = (box: FaceBox) => [box.xMin + box.width / 2, box.yMin + box.height / 2];
+
+// Checks the main face of a live frame against the guide. `previous` is the
+// main face of the frame before, for judging whether the user holds still.
+// Every check fails when there is no face.
+export function checkAlignment(
+  face: Pick<FaceAnalysisResult, 'box' | 'anchors'> | null,
+  previous: Pick<FaceAnalysisResult, 'box'> | null,
+  guide: AlignmentGuide
+): AlignmentCheck[] {
+  if (!face) {
+    return [
+      { name: 'centered', ok: false, message: 'Look into the camera' },
+      { name: 'size', ok: false, message: 'Fit your face in the oval' },
+      { name: 'level', ok: false, message: 'Hold your head level' },
+      { name: 'still', ok: false, message: 'Hold still' }
+    ];
+  }
+
+  const [x, y] = boxCenter(face.box);
+  const offset = Math.max(
+    Math.abs(x - guide.centerX) / guide.radiusX,
+    Math.abs(y - guide.centerY) / guide.radiusY
+  );
+  const size = face.box.height / (guide.radiusY * 2);
+  const pose = estimateHeadPose(face.anchors);
+  const turned = pose !== null && Math.abs(pose.yaw) > MAX_YAW;
+  const tilted = pose !== null && Math.abs(pose.roll) > MAX_ROLL;
+  const nodding = pose !== null && Math.abs(pose.pitch) > MAX_PITCH;
+  const movement = previous
+    ? Math.hypot(x - boxCenter(previous.box)[0], y - boxCenter(previous.box)[1]) / face.box.width
+    : Infinity;
+
+  return [
+    {
+      name: 'centered',
+      ok: offset <= MAX_CENTER_OFFSET,
+      message: offset <= MAX_CENTER_OFFSET ? 'Centered' : 'Center your face in the oval'
+    },
+    {
+      name: 'size',
+      ok: size >= SIZE_RANGE[0] && size <= SIZE_RANGE[1],
+      message: size < SIZE_RANGE[0] ? 'Move closer' : size > SIZE_RANGE[1] ? 'Move back a little' : 'Good distance'
+    },
+    {
+      name: 'level',
+      ok: pose !== null && !turned && !tilted && !nodding,
+      message: turned
+        ? 'Look straight at the camera'
+        : tilted || !pose ? 'Hold your head level' : nodding ? 'Keep your chin level' : 'Level'
+    },
+    {
+      name: 'still',
+      ok: movement <= MAX_MOVEMENT,
+      message: movement <= MAX_MOVEMENT ? 'Steady' : 'Hold still'
+    }
+  ];
+}
+
+// Fires once alignment has held for `frames` frames in a row, after
+// `countdownSeconds` more of staying aligned. Losing alignment at any point
+// starts over.
+export class AutoShutter {
+  private streak = 0;
+  private countdownStart: number | null = null;
+
+  constructor(private readonly frames: number, private readonly countdownSeconds = 0) {}
+
+  push(aligned: boolean, now = Date.now()): ShutterState {
+    if (!aligned) {
+      this.reset();
+      return { phase: 'aligning', streak: 0, secondsLeft: 0 };
+    }
+
+    this.streak++;
+    if (this.streak < this.frames) {
+      return { phase: 'aligning', streak: this.streak, secondsLeft: 0 };
+    }
+
+    this.countdownStart ??= now;
+    const secondsLeft = this.countdownSeconds - (now - this.countdownStart) / 1000;
+    if (secondsLeft <= 0) {
+      const streak = this.streak;
+      this.reset();
+      return { phase: 'capture', streak, secondsLeft: 0 };
+    }
+    return { phase: 'countdown', streak: this.streak, secondsLeft: Math.ceil(secondsLeft) };
+  }
+
+  reset() {
+    this.streak = 0;
+    this.countdownStart = null;
+  }
+}
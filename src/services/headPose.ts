@@ -0,0 +1,105 @@
+import { FaceAnchors, Point, Segment, byX, distance, midpoint } from './geometry';
+
+// Head orientation in degrees, in image terms:
+// - roll: rotation of the eye line, positive when it slopes down to the right
+// - yaw: turn of the head, positive when the nose points toward image right
+// - pitch: nod of the head, positive when the face tips down
+export interface HeadPose {
+  roll: number;
+  yaw: number;
+  pitch: number;
+}
+
+// [warn, fail] limits in degrees. Past the first a pose starts to cost
+// confidence, past the second the face is turned too far to measure well.
+export const POSE_LIMITS = {
+  roll: [8, 20],
+  yaw: [15, 30],
+  pitch: [15, 30]
+} as const;
+
+// Where the nose tip sits between the eye line and the mouth of a face
+// looking straight ahead, and how far it stands out from the face, both as
+// shares of the eye-to-mouth distance
+const NEUTRAL_NOSE_HEIGHT = 0.6;
+const NOSE_DEPTH = 0.35;
+
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+
+export function estimateHeadPose(anchors: FaceAnchors): HeadPose | null {
+  const { leftEye, rightEye, noseTip, mouthCenter, leftEar, rightEar } = anchors;
+  if (!leftEye || !rightEye) return null;
+
+  const [eyeA, eyeB] = byX(leftEye, rightEye);
+  const roll = toDegrees(Math.atan2(eyeB[1] - eyeA[1], eyeB[0] - eyeA[0]));
+  const eyes = midpoint(eyeA, eyeB);
+
+  let yaw = 0;
+  if (noseTip && leftEar && rightEar) {
+    // The nose sits closer to the ear the head is turned toward
+    const [earA, earB] = byX(leftEar, rightEar);
+    const toA = distance(noseTip, earA);
+    const toB = distance(noseTip, earB);
+    yaw = toDegrees(Math.asin(clamp((toA - toB) / (toA + toB))));
+  } else if (noseTip) {
+    // Fall back to how far the nose drifts off the eye midline, measured
+    // along the eye line so roll doesn't count
+    const offset = (
+      (noseTip[0] - eyes[0]) * (eyeB[0] - eyeA[0]) +
+      (noseTip[1] - eyes[1]) * (eyeB[1] - eyeA[1])
+    ) / Math.pow(distance(eyeA, eyeB), 2);
+    yaw = toDegrees(Math.asin(clamp(offset * 2)));
+  }
+
+  let pitch = 0;
+  const eyesToMouth = mouthCenter ? distance(eyes, mouthCenter) : 0;
+  if (noseTip && mouthCenter && eyesToMouth > 0) {
+    // The nose stands out from the face, so nodding moves its tip toward
+    // the mouth or the eyes. Measured along the eyes-to-mouth line so roll
+    // doesn't count.
+    const along = (
+      (noseTip[0] - eyes[0]) * (mouthCenter[0] - eyes[0]) +
+      (noseTip[1] - eyes[1]) * (mouthCenter[1] - eyes[1])
+    ) / (eyesToMouth * eyesToMouth);
+    pitch = toDegrees(Math.asin(clamp((along - NEUTRAL_NOSE_HEIGHT) / NOSE_DEPTH)));
+  }
+
+  return { roll, yaw, pitch };
+}
+
+// An image direction as it would point with the head level: [across, down]
+export function unroll([dx, dy]: Point, roll: number): Point {
+  const angle = toRadians(-roll);
+  return [dx * Math.cos(angle) - dy * Math.sin(angle), dx * Math.sin(angle) + dy * Math.cos(angle)];
+}
+
+// The length of an image span as it would measure on the face seen head-on:
+// turned back by the roll, then stretched by however much the yaw and pitch
+// foreshortened it. Foreshortening is undone no further than the fail
+// limits, past which the angles are too rough to stretch by.
+export function correctedLength([from, to]: Segment, pose: HeadPose | null) {
+  if (!pose) return distance(from, to);
+  const [across, down] = unroll([to[0] - from[0], to[1] - from[1]], pose.roll);
+  const foreshortening = (degrees: number, fail: number) =>
+    Math.cos(toRadians(Math.min(Math.abs(degrees), fail)));
+  return Math.hypot(
+    across / foreshortening(pose.yaw, POSE_LIMITS.yaw[1]),
+    down / foreshortening(pose.pitch, POSE_LIMITS.pitch[1])
+  );
+}
+
+// How far measurements of a face in this pose can be trusted, from 1 for a
+// face looking straight ahead down to half at the fail limit and 0 at twice
+// that. Roll is undone exactly, so only yaw and pitch count.
+export function poseConfidence(pose: HeadPose | null) {
+  if (!pose) return 1;
+  return Math.min(...(['yaw', 'pitch'] as const).map(angle => {
+    const [warn, fail] = POSE_LIMITS[angle];
+    const value = Math.abs(pose[angle]);
+    if (value <= warn) return 1;
+    if (value <= fail) return 1 - 0.5 * (value - warn) / (fail - warn);
+    return Math.max(0, 0.5 * (1 - (value - fail) / fail));
+  }));
+}
@@ -0,0 +1,104 @@
+import { FaceAnalysisResult, parseAnalysisResult } from './analysisResult';
+import { resizeImage } from './images';
+
+// Past analyses kept in the browser's IndexedDB, newest first when listed.
+// Nothing here leaves the device unless the user exports it.
+
+export interface HistoryEntry {
+  id: string;
+  // ISO timestamp
+  createdAt: string;
+  // App version that produced the result, so old entries can be told apart
+  appVersion: string;
+  // Small JPEG data URL of the analyzed photo
+  thumbnail: string;
+  result: FaceAnalysisResult;
+}
+
+const DB_NAME = 'selfie-analyzer';
+const DB_VERSION = 1;
+const STORE = 'history';
+
+const THUMBNAIL_SIZE = 160;
+
+export const APP_VERSION = process.env.NEXT_PUBLIC_APP_VERSION ?? 'unknown';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call try again rather than caching the failure
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+// Runs one request against the history store and resolves with its result
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function saveToHistory(imageUrl: string, result: FaceAnalysisResult): Promise<HistoryEntry> {
+  const entry: HistoryEntry = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString(),
+    appVersion: APP_VERSION,
+    // Small enough that hundreds of entries stay a few megabytes
+    thumbnail: await resizeImage(imageUrl, THUMBNAIL_SIZE, 0.7),
+    result
+  };
+  await withStore('readwrite', store => store.put(entry));
+  return entry;
+}
+
+// Entries whose result no longer validates are left out rather than
+// breaking the whole list
+export async function listHistory(): Promise<HistoryEntry[]> {
+  const entries = await withStore<HistoryEntry[]>('readonly', store => store.index('createdAt').getAll());
+  return entries.reverse().filter(entry => {
+    try {
+      parseAnalysisResult(entry.result);
+      return true;
+    } catch (error) {
+      console.warn(`Skipping history entry ${entry.id}:`, error);
+      return false;
+    }
+  });
+}
+
+export async function deleteHistoryEntry(id: string) {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export async function clearHistory() {
+  await withStore('readwrite', store => store.clear());
+}
+
+// Everything in the history as a downloadable JSON document
+export async function exportHistory(): Promise<Blob> {
+  const entries = await listHistory();
+  const exported = {
+    exportedAt: new Date().toISOString(),
+    appVersion: APP_VERSION,
+    entries
+  };
+  return new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' });
+}
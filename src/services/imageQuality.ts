@@ -0,0 +1,241 @@
+import { FaceAnchors, FaceBox } from './geometry';
+import { POSE_LIMITS, estimateHeadPose } from './headPose';
+import type { PixelData } from './pixels';
+import type { SkinSample } from './skinTone';
+
+export type QualityStatus = 'pass' | 'warn' | 'fail';
+
+export type QualityCheckName =
+  | 'blur'
+  | 'exposure'
+  | 'clipping'
+  | 'faceSize'
+  | 'roll'
+  | 'yaw'
+  | 'pitch'
+  | 'occlusion';
+
+export interface QualityCheck {
+  name: QualityCheckName;
+  status: QualityStatus;
+  // The measured value the status was decided from (units per check)
+  value: number;
+  message: string;
+  // What the user can do about it; only set when the check didn't pass
+  guidance?: string;
+}
+
+export interface QualityReport {
+  // The worst status of any check
+  status: QualityStatus;
+  checks: QualityCheck[];
+}
+
+// [warn, fail] limits for each check. Blur and face size fail when the
+// value drops below the limit, the rest when it rises above it.
+const LIMITS = {
+  // Variance of the Laplacian over the face, in 8-bit gray levels squared
+  blur: [100, 40],
+  // Mean face luminance distance from mid-gray (128)
+  exposure: [60, 90],
+  // Share of face pixels crushed to black or blown to white
+  clipping: [0.05, 0.15],
+  // Face box width as a share of the frame width
+  faceSize: [0.2, 0.1],
+  // Degrees
+  ...POSE_LIMITS,
+  // Share of skin sample regions that are mostly not skin
+  occlusion: [0.3, 0.6]
+} as const;
+
+// Skin regions keeping less than this share of their pixels count as covered
+const OCCLUDED_KEPT_FRACTION = 0.35;
+
+const SEVERITY: Record<QualityStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+const above = (value: number, [warn, fail]: readonly [number, number]): QualityStatus =>
+  value > fail ? 'fail' : value > warn ? 'warn' : 'pass';
+const below = (value: number, [warn, fail]: readonly [number, number]): QualityStatus =>
+  value < fail ? 'fail' : value < warn ? 'warn' : 'pass';
+
+const luminance = (data: PixelData['data'], i: number) =>
+  0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+// Samples the face box on a grid of at most ~200 columns so large photos
+// stay cheap to check.
+function faceGrayscale(pixels: PixelData, box: FaceBox) {
+  const x0 = Math.max(0, Math.floor(box.xMin));
+  const y0 = Math.max(0, Math.floor(box.yMin));
+  const x1 = Math.min(pixels.width, Math.ceil(box.xMin + box.width));
+  const y1 = Math.min(pixels.height, Math.ceil(box.yMin + box.height));
+  const step = Math.max(1, Math.floor((x1 - x0) / 200));
+
+  const columns = Math.max(0, Math.ceil((x1 - x0) / step));
+  const rows = Math.max(0, Math.ceil((y1 - y0) / step));
+  const gray = new Float32Array(columns * rows);
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const x = x0 + column * step;
+      const y = y0 + row * step;
+      gray[row * columns + column] = luminance(pixels.data, (y * pixels.width + x) * 4);
+    }
+  }
+  return { gray, columns, rows };
+}
+
+function checkBlur(gray: Float32Array, columns: number, rows: number): QualityCheck {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let row = 1; row < rows - 1; row++) {
+    for (let column = 1; column < columns - 1; column++) {
+      const i = row * columns + column;
+      const laplacian = gray[i - 1] + gray[i + 1] + gray[i - columns] + gray[i + columns] - 4 * gray[i];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  const variance = count > 0 ? sumSquares / count - Math.pow(sum / count, 2) : 0;
+  const status = below(variance, LIMITS.blur);
+
+  return {
+    name: 'blur',
+    status,
+    value: variance,
+    message: status === 'pass' ? 'Photo is sharp' : 'Photo looks blurry',
+    guidance: status === 'pass' ? undefined : 'Hold the camera steady and make sure your face is in focus'
+  };
+}
+
+function checkExposure(gray: Float32Array): QualityCheck[] {
+  let sum = 0;
+  let clipped = 0;
+  gray.forEach(value => {
+    sum += value;
+    if (value <= 5 || value >= 250) clipped++;
+  });
+  const mean = gray.length > 0 ? sum / gray.length : 0;
+  const clippedShare = gray.length > 0 ? clipped / gray.length : 0;
+
+  const exposureStatus = above(Math.abs(mean - 128), LIMITS.exposure);
+  const tooDark = mean < 128;
+  const clippingStatus = above(clippedShare, LIMITS.clipping);
+
+  return [
+    {
+      name: 'exposure',
+      status: exposureStatus,
+      value: mean,
+      message: exposureStatus === 'pass'
+        ? 'Lighting is balanced'
+        : tooDark ? 'Your face is too dark' : 'Your face is too bright',
+      guidance: exposureStatus === 'pass'
+        ? undefined
+        : tooDark ? 'Find more even light, facing a window or lamp' : 'Move out of direct light or turn away from the light source'
+    },
+    {
+      name: 'clipping',
+      status: clippingStatus,
+      value: clippedShare,
+      message: clippingStatus === 'pass' ? 'No blown highlights or crushed shadows' : 'Parts of your face are washed out or in deep shadow',
+      guidance: clippingStatus === 'pass' ? undefined : 'Find more even light without harsh shadows or glare'
+    }
+  ];
+}
+
+function checkFaceSize(box: FaceBox, imageWidth: number): QualityCheck {
+  const share = imageWidth > 0 ? box.width / imageWidth : 0;
+  const status = below(share, LIMITS.faceSize);
+
+  return {
+    name: 'faceSize',
+    status,
+    value: share,
+    message: status === 'pass' ? 'Face is large enough' : 'Your face is too small in the frame',
+    guidance: status === 'pass' ? undefined : 'Move closer to the camera so your face fills more of the frame'
+  };
+}
+
+function checkPose(anchors: FaceAnchors): QualityCheck[] {
+  const pose = estimateHeadPose(anchors);
+  if (!pose) {
+    return [];
+  }
+
+  const rollStatus = above(Math.abs(pose.roll), LIMITS.roll);
+  const yawStatus = above(Math.abs(pose.yaw), LIMITS.yaw);
+  const pitchStatus = above(Math.abs(pose.pitch), LIMITS.pitch);
+
+  return [
+    {
+      name: 'roll',
+      status: rollStatus,
+      value: pose.roll,
+      message: rollStatus === 'pass' ? 'Head is level' : 'Your head is tilted',
+      guidance: rollStatus === 'pass' ? undefined : 'Tilt your head less and keep your eyes level'
+    },
+    {
+      name: 'yaw',
+      status: yawStatus,
+      value: pose.yaw,
+      message: yawStatus === 'pass' ? 'Facing the camera' : 'Your head is turned to the side',
+      guidance: yawStatus === 'pass' ? undefined : 'Look straight into the camera'
+    },
+    {
+      name: 'pitch',
+      status: pitchStatus,
+      value: pose.pitch,
+      message: pitchStatus === 'pass' ? 'Chin is level' : pose.pitch > 0 ? 'Your chin is tucked down' : 'Your chin is raised',
+      guidance: pitchStatus === 'pass' ? undefined : 'Hold the camera at eye level and keep your chin level'
+    }
+  ];
+}
+
+function checkOcclusion(anchors: FaceAnchors, skinSamples: SkinSample[]): QualityCheck {
+  const missingFeatures = [anchors.leftEye, anchors.rightEye, anchors.noseTip, anchors.mouthCenter]
+    .filter(point => !point).length;
+  const covered = skinSamples.filter(sample =>
+    sample.pixelCount === 0 || sample.keptPixels / sample.pixelCount < OCCLUDED_KEPT_FRACTION
+  );
+  const coveredShare = skinSamples.length > 0 ? covered.length / skinSamples.length : 0;
+
+  const status = missingFeatures > 0 ? 'fail' : above(coveredShare, LIMITS.occlusion);
+  const coveredNames = covered
+    .map(sample => sample.name.replace(/([A-Z])/g, ' $1').toLowerCase())
+    .join(' and ');
+
+  return {
+    name: 'occlusion',
+    status,
+    value: missingFeatures > 0 ? 1 : coveredShare,
+    message: status === 'pass'
+      ? 'Face is unobstructed'
+      : missingFeatures > 0 ? 'Part of your face is hidden' : `Something is covering your ${coveredNames}`,
+    guidance: status === 'pass'
+      ? undefined
+      : 'Move hair, hands, glasses or masks away from your face'
+  };
+}
+
+export function assessQuality(
+  pixels: PixelData,
+  anchors: FaceAnchors,
+  skinSamples: SkinSample[]
+): QualityReport {
+  const { gray, columns, rows } = faceGrayscale(pixels, anchors.box);
+  const checks = [
+    checkBlur(gray, columns, rows),
+    ...checkExposure(gray),
+    checkFaceSize(anchors.box, pixels.width),
+    ...checkPose(anchors),
+    checkOcclusion(anchors, skinSamples)
+  ];
+
+  const status = checks.reduce<QualityStatus>(
+    (worst, check) => SEVERITY[check.status] > SEVERITY[worst] ? check.status : worst,
+    'pass'
+  );
+
+  return { status, checks };
+}
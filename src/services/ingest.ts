@@ -0,0 +1,170 @@
+import { FaceAnalysisError } from './errors';
+import { Orientation, isJpeg, orientationTransform, readJpegOrientation, swapsDimensions } from './exif';
+
+// Turns a photo the user picked, dropped or pasted into images the app can
+// use: decoded (HEIC included), turned upright, stripped of metadata by
+// re-encoding, and scaled to one size for showing and a smaller one for
+// the detector.
+
+export interface IngestedImage {
+  // Upright JPEG data URL for display, reports and history
+  displayUrl: string;
+  width: number;
+  height: number;
+  // Smaller copy to analyze. Multiply its coordinates by `scale` to get
+  // display coordinates.
+  analysisUrl: string;
+  scale: number;
+}
+
+type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'bmp' | 'avif' | 'heic';
+
+const MAX_FILE_BYTES = 40 * 1024 * 1024;
+// Phones top out around 50 MP; beyond that decoding alone can exhaust memory
+const MAX_MEGAPIXELS = 100;
+// Longest side of the displayed photo and of the copy the detector sees.
+// The detector works on far smaller crops, so more pixels only cost time.
+const DISPLAY_MAX_SIZE = 2048;
+const ANALYSIS_MAX_SIZE = 1024;
+const JPEG_QUALITY = 0.92;
+
+// A 2x1 JPEG tagged with orientation 6, which the browser decodes as 1x2
+// when it applies EXIF orientation itself
+const ORIENTATION_TEST_JPEG = 'data:image/jpeg;base64,' +
+  '/9j/4QAiRXhpZgAATU0AKgAAAAgAAQESAAMAAAABAAYAAAAAAAD/2wCEABALDA4MChAODQ4SERATGCgaGBYWGDEjJR0oOjM9PDkzODdASFxOQERX' +
+  'RTc4UG1RV19iZ2hnPk1xeXBkeFxlZ2MBERISGBUYLxoaL2NCOEJjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2NjY2Nj' +
+  'Y2NjY//AABEIAAEAAgMBEQACEQEDEQH/xAGiAAABBQEBAQEBAQAAAAAAAAAAAQIDBAUGBwgJCgsQAAIBAwMCBAMFBQQEAAABfQECAwAEEQUSITFB' +
+  'BhNRYQcicRQygZGhCCNCscEVUtHwJDNicoIJChYXGBkaJSYnKCkqNDU2Nzg5OkNERUZHSElKU1RVVldYWVpjZGVmZ2hpanN0dXZ3eHl6g4SFhoeI' +
+  'iYqSk5SVlpeYmZqio6Slpqeoqaqys7S1tre4ubrCw8TFxsfIycrS09TV1tfY2drh4uPk5ebn6Onq8fLz9PX29/j5+gEAAwEBAQEBAQEBAQAAAAAA' +
+  'AAECAwQFBgcICQoLEQACAQIEBAMEBwUEBAABAncAAQIDEQQFITEGEkFRB2FxEyIygQgUQpGhscEJIzNS8BVictEKFiQ04SXxFxgZGiYnKCkqNTY3' +
+  'ODk6Q0RFRkdISUpTVFVWV1hZWmNkZWZnaGlqc3R1dnd4eXqCg4SFhoeIiYqSk5SVlpeYmZqio6Slpqeoqaqys7S1tre4ubrCw8TFxsfIycrS09TV' +
+  '1tfY2dri4+Tl5ufo6ery8/T19vf4+fr/2gAMAwEAAhEDEQA/AOw8P/8AIvaZ/wBekX/oAoA//9k=';
+
+const ascii = (bytes: Uint8Array, start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+// Tells the format from the file's first bytes; names and MIME types are
+// unreliable (HEIC often arrives with neither)
+function sniffFormat(bytes: Uint8Array): ImageFormat | null {
+  if (isJpeg(bytes)) return 'jpeg';
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 4) === 'PNG') return 'png';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'gif';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') return 'webp';
+  if (ascii(bytes, 0, 2) === 'BM') return 'bmp';
+  if (ascii(bytes, 4, 8) === 'ftyp') {
+    const brand = ascii(bytes, 8, 12);
+    if (brand === 'avif' || brand === 'avis') return 'avif';
+    if (['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'].includes(brand)) return 'heic';
+  }
+  return null;
+}
+
+let appliesOrientation: Promise<boolean> | null = null;
+
+// Whether createImageBitmap already turns JPEGs upright. Current browsers
+// do; older ones hand back the stored pixels.
+function browserAppliesOrientation() {
+  if (!appliesOrientation) {
+    appliesOrientation = fetch(ORIENTATION_TEST_JPEG)
+      .then(response => response.blob())
+      .then(blob => createImageBitmap(blob))
+      .then(bitmap => {
+        const applied = bitmap.width === 1 && bitmap.height === 2;
+        bitmap.close();
+        return applied;
+      })
+      .catch(() => true);
+  }
+  return appliesOrientation;
+}
+
+async function decodeHeic(blob: Blob): Promise<ImageBitmap> {
+  // Safari decodes HEIC natively
+  try {
+    return await createImageBitmap(blob);
+  } catch {
+    // Everyone else gets libheif compiled to WASM, which is large, so only
+    // loaded for HEIC files
+  }
+  const { default: heic2any } = await import('heic2any');
+  const converted = await heic2any({ blob, toType: 'image/jpeg', quality: JPEG_QUALITY });
+  return createImageBitmap(Array.isArray(converted) ? converted[0] : converted);
+}
+
+// Draws the bitmap upright, scaled to fit `maxSize`, onto a white
+// background (for transparent PNGs) and encodes it as JPEG
+function render(bitmap: ImageBitmap, orientation: Orientation, maxSize: number) {
+  const uprightWidth = swapsDimensions(orientation) ? bitmap.height : bitmap.width;
+  const uprightHeight = swapsDimensions(orientation) ? bitmap.width : bitmap.height;
+  const scale = Math.min(1, maxSize / Math.max(uprightWidth, uprightHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(uprightWidth * scale);
+  canvas.height = Math.round(uprightHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.scale(scale, scale);
+  ctx.transform(...orientationTransform(orientation, bitmap.width, bitmap.height));
+  ctx.drawImage(bitmap, 0, 0);
+
+  return { url: canvas.toDataURL('image/jpeg', JPEG_QUALITY), width: canvas.width, height: canvas.height };
+}
+
+export async function ingestImage(file: Blob): Promise<IngestedImage> {
+  if (file.size === 0) {
+    throw new FaceAnalysisError('CORRUPT_IMAGE', 'This file is empty. Please choose another photo.');
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    throw new FaceAnalysisError(
+      'IMAGE_TOO_LARGE',
+      `This file is too large. Please use a photo smaller than ${MAX_FILE_BYTES / 1024 / 1024}MB.`
+    );
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const format = sniffFormat(bytes);
+  if (!format) {
+    throw new FaceAnalysisError(
+      'UNSUPPORTED_IMAGE',
+      'This file type is not supported. Please use a JPEG, PNG, WebP or HEIC photo.'
+    );
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = format === 'heic' ? await decodeHeic(file) : await createImageBitmap(file);
+  } catch {
+    throw new FaceAnalysisError(
+      'CORRUPT_IMAGE',
+      format === 'heic'
+        ? 'This HEIC photo could not be opened. Please export it as JPEG and try again.'
+        : 'This image could not be opened. The file may be damaged or incomplete.'
+    );
+  }
+
+  try {
+    if (bitmap.width * bitmap.height > MAX_MEGAPIXELS * 1e6) {
+      throw new FaceAnalysisError(
+        'IMAGE_TOO_LARGE',
+        `This photo has more than ${MAX_MEGAPIXELS} megapixels. Please use a smaller photo.`
+      );
+    }
+
+    // Only JPEGs carry the tag, and only older browsers leave it to us
+    const stored = format === 'jpeg' ? readJpegOrientation(bytes) : 1;
+    const orientation = stored !== 1 && !(await browserAppliesOrientation()) ? stored : 1;
+
+    const display = render(bitmap, orientation, DISPLAY_MAX_SIZE);
+    const analysis = render(bitmap, orientation, ANALYSIS_MAX_SIZE);
+    return {
+      displayUrl: display.url,
+      width: display.width,
+      height: display.height,
+      analysisUrl: analysis.url,
+      scale: display.width / analysis.width
+    };
+  } finally {
+    bitmap.close();
+  }
+}
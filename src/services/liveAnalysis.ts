@@ -0,0 +1,106 @@
+import type { FaceAnalysisResult } from './faceAnalysis';
+import { primaryFaceIndex } from './geometry';
+import type { FaceShape } from './proportions';
+import type { SkinToneLabel } from './skinTone';
+
+// Frames of history the provisional labels are voted over
+const HISTORY_SIZE = 8;
+// Votes the leading shape and tone each need before the result counts as stable
+const SETTLE_VOTES = 5;
+
+interface LiveFrame {
+  results: FaceAnalysisResult[];
+  primary: FaceAnalysisResult | null;
+  width: number;
+  height: number;
+}
+
+export interface LiveSnapshot {
+  faceFound: boolean;
+  faceShape: FaceShape | null;
+  skinTone: SkinToneLabel | null;
+  // Share of recent frames agreeing with both provisional labels (0-1)
+  agreement: number;
+  settled: boolean;
+}
+
+// Collects per-frame results from the camera preview and reports the labels
+// they are settling on, so a flickering frame doesn't flip what the user sees.
+export class LiveAnalysisTracker {
+  private history: LiveFrame[] = [];
+
+  push(results: FaceAnalysisResult[], width: number, height: number) {
+    const primary = results.length > 0
+      ? results[primaryFaceIndex(results.map(result => result.box), width, height)]
+      : null;
+
+    this.history.push({ results, primary, width, height });
+    if (this.history.length > HISTORY_SIZE) {
+      this.history.shift();
+    }
+  }
+
+  reset() {
+    this.history = [];
+  }
+
+  latest(): LiveFrame | null {
+    return this.history[this.history.length - 1] ?? null;
+  }
+
+  snapshot(): LiveSnapshot {
+    const latest = this.latest();
+    const faceShape = this.leading(result => result.faceShape);
+    const skinTone = this.leading(result => result.skinTone);
+    const agreeing = this.history.filter(frame =>
+      frame.primary?.faceShape === faceShape.value &&
+      frame.primary?.skinTone === skinTone.value
+    ).length;
+
+    return {
+      faceFound: Boolean(latest?.primary),
+      faceShape: faceShape.value,
+      skinTone: skinTone.value,
+      agreement: this.history.length > 0 ? agreeing / this.history.length : 0,
+      settled: Boolean(latest?.primary) &&
+        faceShape.votes >= SETTLE_VOTES &&
+        skinTone.votes >= SETTLE_VOTES
+    };
+  }
+
+  // The most recent frame that agrees with the settled labels, or null while
+  // the labels are still moving.
+  stableFrame(): LiveFrame | null {
+    const snapshot = this.snapshot();
+    if (!snapshot.settled) return null;
+
+    for (let i = this.history.length - 1; i >= 0; i--) {
+      const frame = this.history[i];
+      if (frame.primary?.faceShape === snapshot.faceShape &&
+        frame.primary?.skinTone === snapshot.skinTone) {
+        return frame;
+      }
+    }
+    return null;
+  }
+
+  private leading<T extends string>(label: (result: FaceAnalysisResult) => T) {
+    const votes = new Map<T, number>();
+    this.history.forEach(frame => {
+      if (frame.primary) {
+        const value = label(frame.primary);
+        votes.set(value, (votes.get(value) ?? 0) + 1);
+      }
+    });
+
+    let value: T | null = null;
+    let count = 0;
+    for (const [candidate, votesFor] of Array.from(votes)) {
+      if (votesFor > count) {
+        value = candidate;
+        count = votesFor;
+      }
+    }
+    return { value, votes: count };
+  }
+}
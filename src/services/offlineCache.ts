@@ -0,0 +1,66 @@
+// Browser side of public/sw.js: registers the service worker for the
+// current build and hands it what the app loaded from elsewhere, so the
+// next visit can run with no network.
+
+export type OfflineStatus = 'unsupported' | 'preparing' | 'ready' | 'failed';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+// Hot reloading in development doesn't mix with a cache-first worker
+export const offlineSupported = () =>
+  process.env.NODE_ENV === 'production' &&
+  typeof navigator !== 'undefined' &&
+  'serviceWorker' in navigator;
+
+// Lists what the worker caches on install, see src/server/offlineManifest.ts
+const OFFLINE_MANIFEST_URL = '/offline-manifest.json';
+
+// The version of the build being served, or null with no network
+async function buildVersion(): Promise<string | null> {
+  try {
+    const response = await fetch(OFFLINE_MANIFEST_URL, { cache: 'no-cache' });
+    return response.ok ? (await response.json()).version : null;
+  } catch {
+    return null;
+  }
+}
+
+// Resolves once a newly registered worker has cached the build and taken
+// over, and rejects when its install failed
+function activation(registration: ServiceWorkerRegistration) {
+  const worker = registration.installing ?? registration.waiting;
+  if (!worker) return Promise.resolve();
+  return new Promise<void>((resolve, reject) => {
+    worker.addEventListener('statechange', () => {
+      if (worker.state === 'activated') resolve();
+      if (worker.state === 'redundant') reject(new Error('The offline cache could not be installed'));
+    });
+  });
+}
+
+// A new build registers the worker under a new URL, which installs a fresh
+// worker with its own cache. With no network the installed one carries on.
+export async function registerOfflineCache() {
+  const version = await buildVersion();
+  if (version) {
+    await activation(await navigator.serviceWorker.register(`${SERVICE_WORKER_URL}?v=${version}`));
+  } else if (!await navigator.serviceWorker.getRegistration()) {
+    throw new Error('The offline cache needs a network connection to install');
+  }
+  return navigator.serviceWorker.ready;
+}
+
+// Asks the service worker to cache `urls`, resolving with the ones it
+// couldn't fetch. Only URLs we can request again are worth sending.
+export async function precacheForOffline(urls: string[]): Promise<string[]> {
+  const registration = await registerOfflineCache();
+  const worker = registration.active;
+  if (!worker) return urls;
+
+  const cacheable = urls.filter(url => url.startsWith('http') && !url.includes('/api/'));
+  return new Promise(resolve => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = event => resolve(event.data.failed);
+    worker.postMessage({ type: 'precache', urls: cacheable }, [channel.port2]);
+  });
+}
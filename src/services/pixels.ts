@@ -0,0 +1,62 @@
+import * as tf from '@tensorflow/tfjs';
+
+// An image as raw RGBA bytes, row by row. DOM ImageData has this shape, and
+// so do the decoders used on the server, which keeps the analysis pipeline
+// independent of where the pixels came from.
+export interface PixelData {
+  data: Uint8ClampedArray | Uint8Array;
+  width: number;
+  height: number;
+}
+
+// Browser elements we can read pixels from with a 2D canvas
+export type AnalysisInput = HTMLImageElement | HTMLVideoElement | HTMLCanvasElement;
+
+export function isPixelData(input: AnalysisInput | PixelData): input is PixelData {
+  return 'data' in input && (input.data instanceof Uint8Array || input.data instanceof Uint8ClampedArray);
+}
+
+export function elementSize(input: AnalysisInput) {
+  if (input instanceof HTMLVideoElement) {
+    return { width: input.videoWidth, height: input.videoHeight };
+  }
+  return { width: input.width, height: input.height };
+}
+
+// Browser only: draws the element to a canvas and reads it back
+export function readPixels(input: AnalysisInput): ImageData {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  const { width, height } = elementSize(input);
+  canvas.width = width;
+  canvas.height = height;
+  ctx.drawImage(input, 0, 0);
+
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+// Web Worker friendly: reads a bitmap back through an OffscreenCanvas and
+// releases it
+export function readBitmap(bitmap: ImageBitmap): ImageData {
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+// RGB tensor the detectors accept on any tfjs backend. Callers dispose it.
+export function toImageTensor(pixels: PixelData): tf.Tensor3D {
+  const rgb = new Int32Array(pixels.width * pixels.height * 3);
+  for (let source = 0, target = 0; source < pixels.data.length; source += 4, target += 3) {
+    rgb[target] = pixels.data[source];
+    rgb[target + 1] = pixels.data[source + 1];
+    rgb[target + 2] = pixels.data[source + 2];
+  }
+  return tf.tensor3d(rgb, [pixels.height, pixels.width, 3], 'int32');
+}
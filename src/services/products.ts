@@ -0,0 +1,181 @@
+import defaultProducts from '@/data/productCatalog.json';
+import type { FaceAnalysisResult } from './analysisResult';
+import { correctedLength } from './headPose';
+import { FACE_SHAPES, FaceShape } from './proportions';
+import { UNDERTONES } from './skinTone';
+import type { Undertone } from './skinTone';
+
+// Matching a result against the products we sell: each item is scored by
+// how well its tags fit the face, with the reasons shown next to it.
+
+export type ProductCategory = 'eyewear' | 'hairstyle';
+
+export const PRODUCT_CATEGORIES: ProductCategory[] = ['eyewear', 'hairstyle'];
+
+export const PRODUCT_CATEGORY_LABELS: Record<ProductCategory, string> = {
+  eyewear: 'Frames',
+  hairstyle: 'Hairstyles'
+};
+
+export interface WidthRange {
+  min: number;
+  max: number;
+}
+
+// Every tag is optional; an item is only scored on the ones it has
+export interface ProductTags {
+  faceShapes?: FaceShape[];
+  undertones?: Undertone[];
+  // Face widths the frame is sized for, in millimeters
+  frameWidth?: WidthRange;
+}
+
+export interface Product {
+  id: string;
+  name: string;
+  category: ProductCategory;
+  // URL of the product picture, kept in public/products or public/try-on
+  // so it is cached for offline use
+  image: string;
+  tags: ProductTags;
+}
+
+export interface ProductCatalog {
+  version: number;
+  products: Product[];
+}
+
+export interface ProductMatch {
+  product: Product;
+  // 0-100, how well the tags fit the face
+  score: number;
+  reasons: string[];
+}
+
+// Average adult distance between the pupils, used to turn the pixels of a
+// photo into millimeters. Individual faces vary by about ±4 mm.
+const PUPIL_DISTANCE_MM = 63;
+// How far outside its range a face can be before a frame's size stops
+// counting for it at all
+const FRAME_WIDTH_FALLOFF_MM = 10;
+// How much each tag counts toward the score
+const TAG_WEIGHTS: Record<keyof ProductTags, number> = {
+  faceShapes: 3,
+  undertones: 1,
+  frameWidth: 2
+};
+
+// Validates a catalog loaded from JSON, naming the product at fault
+export function parseProductCatalog(json: unknown): ProductCatalog {
+  const catalog = json as ProductCatalog;
+  if (!catalog || typeof catalog.version !== 'number' || !Array.isArray(catalog.products)) {
+    throw new Error('The product catalog must have a numeric "version" and a "products" array');
+  }
+
+  const ids = new Set<string>();
+  catalog.products.forEach((product, index) => {
+    const fail = (problem: string) => {
+      throw new Error(`Product ${product?.id ?? `#${index}`} ${problem}`);
+    };
+    const checkList = <T>(values: unknown, allowed: readonly T[], name: string) => {
+      if (values === undefined) return;
+      if (!Array.isArray(values) || values.some(value => !allowed.includes(value as T))) {
+        fail(`has a "${name}" tag that is not a list of ${allowed.join(', ')}`);
+      }
+    };
+
+    if (typeof product.id !== 'string' || product.id === '') fail('is missing an "id"');
+    if (ids.has(product.id)) fail('is defined more than once');
+    ids.add(product.id);
+    if (!PRODUCT_CATEGORIES.includes(product.category)) fail(`has unknown category "${product.category}"`);
+    if (typeof product.name !== 'string' || typeof product.image !== 'string') fail('needs both "name" and "image"');
+    if (!product.tags || typeof product.tags !== 'object') fail('is missing its "tags"');
+
+    checkList(product.tags.faceShapes, FACE_SHAPES, 'faceShapes');
+    checkList(product.tags.undertones, UNDERTONES, 'undertones');
+    const width = product.tags.frameWidth;
+    if (width !== undefined && (typeof width.min !== 'number' || typeof width.max !== 'number' || width.min > width.max)) {
+      fail('has a "frameWidth" without numeric min and max, min first');
+    }
+  });
+
+  return catalog;
+}
+
+export const DEFAULT_PRODUCT_CATALOG = parseProductCatalog(defaultProducts);
+
+// The face width in millimeters, scaled by the distance between the eyes.
+// Null when the eyes weren't found.
+export function faceWidthMm(result: FaceAnalysisResult) {
+  const { leftEye, rightEye } = result.anchors;
+  if (!leftEye || !rightEye) return null;
+  const eyeDistance = correctedLength([leftEye, rightEye], result.pose ?? null);
+  if (eyeDistance === 0) return null;
+  return result.measurements.faceWidth / eyeDistance * PUPIL_DISTANCE_MM;
+}
+
+// How well one tag fits, 0-1, with the reason to show for it
+type TagFit = [keyof ProductTags, number, string];
+
+function fitTags({ tags }: Product, result: FaceAnalysisResult, widthMm: number | null): TagFit[] {
+  const fits: TagFit[] = [];
+  const { faceShape, faceShapeDetails, skinToneDetails } = result;
+
+  if (tags.faceShapes) {
+    // The likeliest listed shape against the likeliest shape overall, so a
+    // close runner-up still counts for most of it
+    const best = Math.max(0, ...faceShapeDetails.scores
+      .filter(({ shape }) => tags.faceShapes!.includes(shape))
+      .map(({ probability }) => probability));
+    const runnerUp = faceShapeDetails.top[1].shape;
+    fits.push(['faceShapes', best / faceShapeDetails.top[0].probability, tags.faceShapes.includes(faceShape)
+      ? `Suits ${faceShape} faces`
+      : tags.faceShapes.includes(runnerUp)
+        ? `Suits ${runnerUp} faces, your face's runner-up shape`
+        : `Made for ${tags.faceShapes.join(', ')} faces rather than ${faceShape}`]);
+  }
+
+  if (tags.undertones) {
+    const { undertone } = skinToneDetails;
+    fits.push(['undertones', tags.undertones.includes(undertone) ? 1 : 0, tags.undertones.includes(undertone)
+      ? `Its colors flatter ${undertone.toLowerCase()} undertones like yours`
+      : `Its colors favor ${tags.undertones.join(' or ').toLowerCase()} undertones, yours are ${undertone.toLowerCase()}`]);
+  }
+
+  // Left out of the score rather than counted against the frame when the
+  // face couldn't be sized
+  if (tags.frameWidth && widthMm !== null) {
+    const { min, max } = tags.frameWidth;
+    const width = Math.round(widthMm);
+    const gap = Math.max(min - widthMm, widthMm - max, 0);
+    fits.push(['frameWidth', Math.max(0, 1 - gap / FRAME_WIDTH_FALLOFF_MM), gap === 0
+      ? `Sized for faces ${min}–${max} mm wide; yours measures about ${width} mm`
+      : widthMm < min
+        ? `Runs wide for your face, about ${width} mm across`
+        : `Runs narrow for your face, about ${width} mm across`]);
+  }
+
+  return fits;
+}
+
+// Every catalog item scored against the face, best first. Items without a
+// tag that can be checked score 0.
+export function matchProducts(
+  result: FaceAnalysisResult,
+  catalog: ProductCatalog = DEFAULT_PRODUCT_CATALOG
+): ProductMatch[] {
+  const widthMm = faceWidthMm(result);
+  return catalog.products
+    .map(product => {
+      const fits = fitTags(product, result, widthMm);
+      const weight = fits.reduce((sum, [tag]) => sum + TAG_WEIGHTS[tag], 0);
+      const score = fits.reduce((sum, [tag, fit]) => sum + TAG_WEIGHTS[tag] * fit, 0);
+      return {
+        product,
+        score: weight > 0 ? Math.round(100 * score / weight) : 0,
+        reasons: fits.map(([, , reason]) => reason)
+      };
+    })
+    // Stable sort keeps catalog order between equal scores
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,43 @@
+// The shapes the classifier tells apart by these proportions
+export type FaceShape =
+  | 'Oval'
+  | 'Round'
+  | 'Square'
+  | 'Oblong'
+  | 'Heart'
+  | 'Inverted Triangle'
+  | 'Triangle'
+  | 'Diamond';
+
+export const FACE_SHAPES: FaceShape[] = [
+  'Oval',
+  'Round',
+  'Square',
+  'Oblong',
+  'Heart',
+  'Inverted Triangle',
+  'Triangle',
+  'Diamond'
+];
+
+export interface FaceProportions {
+  faceWidth: number;
+  faceHeight: number;
+  foreheadWidth: number;
+  jawWidth: number;
+  chinLength: number;
+}
+
+// Proportions faces are compared by. Raw pixel measurements depend on
+// photo resolution, so classifiers and rules only ever see ratios.
+export type MeasurementRatio = 'lengthToWidth' | 'foreheadToJaw' | 'chinToLength';
+
+export const MEASUREMENT_RATIOS: MeasurementRatio[] = ['lengthToWidth', 'foreheadToJaw', 'chinToLength'];
+
+export function measurementRatios(measurements: FaceProportions): Record<MeasurementRatio, number> {
+  return {
+    lengthToWidth: measurements.faceHeight / measurements.faceWidth,
+    foreheadToJaw: measurements.foreheadWidth / measurements.jawWidth,
+    chinToLength: measurements.chinLength / measurements.faceHeight
+  };
+}
@@ -0,0 +1,192 @@
+import defaultRules from '@/data/recommendationRules.json';
+import {
+  BROW_ARCHES,
+  EYE_SHAPES,
+  EYE_SPACINGS,
+  EYE_TILTS,
+  LIP_FULLNESSES,
+  NOSE_WIDTHS
+} from './facialFeatures';
+import type { BrowArch, EyeShape, EyeSpacing, EyeTilt, FacialFeatures, LipFullness, NoseWidth } from './facialFeatures';
+import {
+  FACE_SHAPES,
+  FaceProportions,
+  FaceShape,
+  MEASUREMENT_RATIOS,
+  MeasurementRatio,
+  measurementRatios
+} from './proportions';
+import { FITZPATRICK_TYPES, SKIN_CATEGORIES, UNDERTONES } from './skinTone';
+import type { FitzpatrickType, SkinCategory, SkinToneDetails, Undertone } from './skinTone';
+
+export type RecommendationCategory = 'hair' | 'eyewear' | 'makeup' | 'jewelry' | 'clothingColor';
+
+export const RECOMMENDATION_CATEGORIES: RecommendationCategory[] = [
+  'hair',
+  'eyewear',
+  'makeup',
+  'jewelry',
+  'clothingColor'
+];
+
+export const CATEGORY_LABELS: Record<RecommendationCategory, string> = {
+  hair: 'Hair',
+  eyewear: 'Eyewear',
+  makeup: 'Makeup',
+  jewelry: 'Jewelry',
+  clothingColor: 'Clothing Colors'
+};
+
+export interface RatioRange {
+  min?: number;
+  max?: number;
+}
+
+// Every listed condition must hold; a list matches when any entry does.
+// Facial feature conditions never match a face measured without the mesh.
+export interface RuleConditions {
+  faceShape?: FaceShape[];
+  undertone?: Undertone[];
+  skinCategory?: SkinCategory[];
+  fitzpatrick?: FitzpatrickType[];
+  ratios?: Partial<Record<MeasurementRatio, RatioRange>>;
+  eyeShape?: EyeShape[];
+  eyeTilt?: EyeTilt[];
+  eyeSpacing?: EyeSpacing[];
+  browArch?: BrowArch[];
+  lipFullness?: LipFullness[];
+  noseWidth?: NoseWidth[];
+  // 0-100
+  symmetry?: RatioRange;
+}
+
+export interface RecommendationRule {
+  id: string;
+  category: RecommendationCategory;
+  // 1 is the most important
+  priority: number;
+  when: RuleConditions;
+  text: string;
+  rationale: string;
+}
+
+export interface RuleCatalog {
+  version: number;
+  rules: RecommendationRule[];
+}
+
+export interface Recommendation {
+  id: string;
+  category: RecommendationCategory;
+  priority: number;
+  text: string;
+  rationale: string;
+}
+
+export interface RecommendationContext {
+  faceShape: FaceShape;
+  skinToneDetails: Pick<SkinToneDetails, 'undertone' | 'category' | 'fitzpatrick'>;
+  measurements: FaceProportions;
+  features?: FacialFeatures | null;
+}
+
+// Validates a catalog loaded from JSON so a typo in the rule file fails
+// loudly with the offending rule, instead of silently never matching.
+export function parseRuleCatalog(json: unknown): RuleCatalog {
+  const catalog = json as RuleCatalog;
+  if (!catalog || typeof catalog.version !== 'number' || !Array.isArray(catalog.rules)) {
+    throw new Error('Recommendation rules must have a numeric "version" and a "rules" array');
+  }
+
+  const ids = new Set<string>();
+  catalog.rules.forEach((rule, index) => {
+    const label = `Recommendation rule ${rule?.id ?? `#${index}`}`;
+    const fail = (problem: string) => {
+      throw new Error(`${label} ${problem}`);
+    };
+    const checkList = <T>(values: unknown, allowed: readonly T[], name: string) => {
+      if (values === undefined) return;
+      if (!Array.isArray(values) || values.some(value => typeof value !== 'string')) {
+        fail(`has a "${name}" condition that is not a list of strings`);
+      }
+      const unknown = (values as T[]).find(value => !allowed.includes(value));
+      if (unknown) fail(`has unknown ${name} "${unknown}"`);
+    };
+
+    if (typeof rule.id !== 'string' || rule.id === '') fail('is missing an "id"');
+    if (ids.has(rule.id)) fail('is defined more than once');
+    ids.add(rule.id);
+    if (!RECOMMENDATION_CATEGORIES.includes(rule.category)) fail(`has unknown category "${rule.category}"`);
+    if (typeof rule.priority !== 'number') fail('is missing a numeric "priority"');
+    if (typeof rule.text !== 'string' || typeof rule.rationale !== 'string') {
+      fail('needs both "text" and "rationale"');
+    }
+    if (!rule.when || typeof rule.when !== 'object') fail('is missing its "when" conditions');
+
+    checkList(rule.when.faceShape, FACE_SHAPES, 'faceShape');
+    checkList(rule.when.undertone, UNDERTONES, 'undertone');
+    checkList(rule.when.skinCategory, SKIN_CATEGORIES, 'skinCategory');
+    checkList(rule.when.fitzpatrick, FITZPATRICK_TYPES, 'fitzpatrick');
+    checkList(rule.when.eyeShape, EYE_SHAPES, 'eyeShape');
+    checkList(rule.when.eyeTilt, EYE_TILTS, 'eyeTilt');
+    checkList(rule.when.eyeSpacing, EYE_SPACINGS, 'eyeSpacing');
+    checkList(rule.when.browArch, BROW_ARCHES, 'browArch');
+    checkList(rule.when.lipFullness, LIP_FULLNESSES, 'lipFullness');
+    checkList(rule.when.noseWidth, NOSE_WIDTHS, 'noseWidth');
+    Object.keys(rule.when.ratios ?? {}).forEach(ratio => {
+      if (!MEASUREMENT_RATIOS.includes(ratio as MeasurementRatio)) fail(`has unknown ratio "${ratio}"`);
+    });
+  });
+
+  return catalog;
+}
+
+export const DEFAULT_RULE_CATALOG = parseRuleCatalog(defaultRules);
+
+const inRange = (range: RatioRange, value: number) =>
+  (range.min === undefined || value >= range.min) &&
+  (range.max === undefined || value <= range.max);
+
+function matches(conditions: RuleConditions, context: RecommendationContext) {
+  const { faceShape, skinToneDetails, measurements, features } = context;
+  const inList = <T>(list: T[] | undefined, value: T | undefined) =>
+    !list || (value !== undefined && list.includes(value));
+
+  if (!inList(conditions.faceShape, faceShape)) return false;
+  if (!inList(conditions.undertone, skinToneDetails.undertone)) return false;
+  if (!inList(conditions.skinCategory, skinToneDetails.category)) return false;
+  if (!inList(conditions.fitzpatrick, skinToneDetails.fitzpatrick)) return false;
+  if (!inList(conditions.eyeShape, features?.eyes.shape)) return false;
+  if (!inList(conditions.eyeTilt, features?.eyes.tilt)) return false;
+  if (!inList(conditions.eyeSpacing, features?.eyes.spacing)) return false;
+  if (!inList(conditions.browArch, features?.brows.arch)) return false;
+  if (!inList(conditions.lipFullness, features?.lips.fullness)) return false;
+  if (!inList(conditions.noseWidth, features?.nose.width)) return false;
+  const symmetry = features?.symmetry ?? undefined;
+  if (conditions.symmetry && (symmetry === undefined || !inRange(conditions.symmetry, symmetry))) return false;
+
+  const ratios = measurementRatios(measurements);
+  return Object.entries(conditions.ratios ?? {}).every(([name, range]) =>
+    inRange(range, ratios[name as MeasurementRatio])
+  );
+}
+
+export function recommend(
+  context: RecommendationContext,
+  catalog: RuleCatalog = DEFAULT_RULE_CATALOG
+): Recommendation[] {
+  return catalog.rules
+    .filter(rule => matches(rule.when, context))
+    // Stable sort keeps catalog order within a priority
+    .sort((a, b) => a.priority - b.priority)
+    .map(({ id, category, priority, text, rationale }) => ({ id, category, priority, text, rationale }));
+}
+
+export function groupByCategory(recommendations: Recommendation[]) {
+  return RECOMMENDATION_CATEGORIES
+    .map(category => ({
+      category,
+      items: recommendations.filter(recommendation => recommendation.category === category)
+    }))
+    .filter(group => group.items.length > 0);
+}
@@ -0,0 +1,301 @@
+import { FaceAnalysisResult, parseAnalysisResult } from './analysisResult';
+import { FaceAnalysisError } from './errors';
+import { describeFeatures } from './facialFeatures';
+import { APP_VERSION } from './history';
+import { loadImage, resizeImage } from './images';
+import { measurementRatios } from './proportions';
+import { CATEGORY_LABELS, groupByCategory } from './recommendations';
+import { lightingLabel } from './whiteBalance';
+
+// Client-side reports for handing a result to the client: a printable PDF,
+// a square PNG card for sharing, and a JSON file the app can open again.
+
+export const REPORT_FORMAT = 'selfie-analysis-report';
+// Bump when the JSON layout changes in a way older readers can't handle
+export const REPORT_VERSION = 1;
+
+export interface AnalysisReport {
+  format: typeof REPORT_FORMAT;
+  version: number;
+  createdAt: string;
+  appVersion: string;
+  // Data URL of the photo exactly as analyzed, so the result's coordinates
+  // still line up when the report is opened again
+  image: string;
+  result: FaceAnalysisResult;
+}
+
+// Big enough to print sharply at the size the PDF shows it
+const PDF_IMAGE_SIZE = 1024;
+const CARD_SIZE = 1080;
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const MEASUREMENT_LABELS: Record<keyof Omit<FaceAnalysisResult['measurements'], 'methods' | 'lines'>, string> = {
+  faceWidth: 'Face width',
+  faceHeight: 'Face length',
+  foreheadWidth: 'Forehead width',
+  jawWidth: 'Jaw width',
+  chinLength: 'Chin length'
+};
+
+function shapeSummary(result: FaceAnalysisResult) {
+  const [best, runnerUp] = result.faceShapeDetails.top;
+  return `${best.shape} (${percent(best.probability)}), leaning ${runnerUp.shape}`;
+}
+
+export function createReport(image: string, result: FaceAnalysisResult): AnalysisReport {
+  return {
+    format: REPORT_FORMAT,
+    version: REPORT_VERSION,
+    createdAt: new Date().toISOString(),
+    appVersion: APP_VERSION,
+    image,
+    result
+  };
+}
+
+export function reportToJson(report: AnalysisReport): Blob {
+  return new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+}
+
+// Checks a report read back from a file, throwing INVALID_RESULT with a
+// message for the user
+export function parseReport(json: unknown): AnalysisReport {
+  const report = json as AnalysisReport;
+  const fail = (message: string): never => {
+    throw new FaceAnalysisError('INVALID_RESULT', message);
+  };
+  if (!report || report.format !== REPORT_FORMAT) {
+    fail('This file is not a selfie analysis report.');
+  }
+  if (typeof report.version !== 'number' || report.version > REPORT_VERSION) {
+    fail('This report was made by a newer version of the app, please update to open it.');
+  }
+  if (typeof report.image !== 'string' || !report.image.startsWith('data:image/')) {
+    fail('The report is missing its photo.');
+  }
+  return { ...report, result: parseAnalysisResult(report.result) };
+}
+
+export async function reportToPdf(report: AnalysisReport): Promise<Blob> {
+  // jsPDF is large and only needed here
+  const { jsPDF } = await import('jspdf');
+  const { result } = report;
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const margin = 18;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textWidth = pageWidth - margin * 2;
+  let y = margin;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      doc.addPage();
+      y = margin;
+    }
+  };
+  const heading = (text: string) => {
+    ensureSpace(12);
+    y += 4;
+    doc.setFont('helvetica', 'bold').setFontSize(13).text(text, margin, y);
+    y += 7;
+  };
+  const paragraph = (text: string, size = 10, indent = 0) => {
+    doc.setFont('helvetica', 'normal').setFontSize(size);
+    const lines: string[] = doc.splitTextToSize(text, textWidth - indent);
+    lines.forEach(line => {
+      ensureSpace(size * 0.45);
+      doc.text(line, margin + indent, y);
+      y += size * 0.45;
+    });
+  };
+
+  doc.setFont('helvetica', 'bold').setFontSize(20).text('Selfie Analysis Report', margin, y + 4);
+  y += 10;
+  doc.setFont('helvetica', 'normal').setFontSize(9).setTextColor(110)
+    .text(`${new Date(report.createdAt).toLocaleString()} · app v${report.appVersion}`, margin, y);
+  doc.setTextColor(0);
+  y += 8;
+
+  // Photo on the left, headline results beside it
+  const photoUrl = await resizeImage(report.image, PDF_IMAGE_SIZE);
+  const photo = await loadImage(photoUrl);
+  const photoWidth = 70;
+  const photoHeight = Math.min(95, (photo.height / photo.width) * photoWidth);
+  const photoDrawWidth = (photo.width / photo.height) * photoHeight;
+  doc.addImage(photoUrl, 'JPEG', margin, y, photoDrawWidth, photoHeight);
+
+  const column = margin + photoWidth + 8;
+  const { skinToneDetails } = result;
+  let summaryY = y + 4;
+  const summaryLine = (label: string, value: string) => {
+    doc.setFont('helvetica', 'bold').setFontSize(10).text(label, column, summaryY);
+    doc.setFont('helvetica', 'normal').text(value, column + 30, summaryY);
+    summaryY += 6;
+  };
+  summaryLine('Face shape', shapeSummary(result));
+  summaryLine('Skin tone', result.skinTone);
+  doc.setFillColor(skinToneDetails.rgb.r, skinToneDetails.rgb.g, skinToneDetails.rgb.b)
+    .rect(column + 30, summaryY - 4, 16, 8, 'F');
+  summaryY += 7;
+  summaryLine('Fitzpatrick', `Type ${skinToneDetails.fitzpatrick}`);
+  summaryLine('Undertone', skinToneDetails.undertone);
+  summaryLine('ITA°', skinToneDetails.ita.toFixed(1));
+  if (result.colorAnalysis) summaryLine('Color season', result.colorAnalysis.season);
+  if (result.lighting) summaryLine('Lighting', lightingLabel(result.lighting));
+  summaryLine('Confidence', percent(result.confidence));
+  y += photoHeight + 4;
+
+  heading('Measurements');
+  const ratios = measurementRatios(result.measurements);
+  (Object.keys(MEASUREMENT_LABELS) as (keyof typeof MEASUREMENT_LABELS)[]).forEach(name => {
+    paragraph(`${MEASUREMENT_LABELS[name]}: ${Math.round(result.measurements[name])} px (${result.measurements.methods[name]})`);
+  });
+  paragraph(
+    `Length to width ${ratios.lengthToWidth.toFixed(2)} · forehead to jaw ${ratios.foreheadToJaw.toFixed(2)} · ` +
+    `chin to length ${ratios.chinToLength.toFixed(2)}`
+  );
+  if (result.pose) {
+    const { roll, yaw, pitch } = result.pose;
+    paragraph(
+      `Corrected for a head pose of ${roll.toFixed(0)}° roll, ${yaw.toFixed(0)}° yaw and ${pitch.toFixed(0)}° pitch`
+    );
+  }
+
+  if (result.features) {
+    heading('Facial features');
+    describeFeatures(result.features).forEach(({ label, value }) => paragraph(`${label}: ${value}`));
+  }
+
+  if (result.colorAnalysis) {
+    const { palette } = result.colorAnalysis;
+    heading(`Color season: ${result.colorAnalysis.season}`);
+    paragraph(result.colorAnalysis.explanation);
+    y += 2;
+    ([['Wear', palette.recommended], ['Avoid', palette.avoid]] as const).forEach(([label, swatches]) => {
+      ensureSpace(14);
+      doc.setFont('helvetica', 'bold').setFontSize(9).text(label, margin, y + 4);
+      swatches.forEach((swatch, index) => {
+        const x = margin + 14 + index * 26;
+        doc.setFillColor(swatch.hex).setDrawColor(200).rect(x, y, 8, 6, 'FD');
+        doc.setFont('helvetica', 'normal').setFontSize(7).text([swatch.name, swatch.hex], x + 9.5, y + 2.5);
+      });
+      y += 10;
+    });
+  }
+
+  heading('Recommendations');
+  groupByCategory(result.recommendations).forEach(group => {
+    ensureSpace(10);
+    doc.setFont('helvetica', 'bold').setFontSize(11).text(CATEGORY_LABELS[group.category], margin, y);
+    y += 5;
+    group.items.forEach(item => {
+      paragraph(`• ${item.text}`, 10, 2);
+      doc.setTextColor(110);
+      paragraph(item.rationale, 8.5, 5);
+      doc.setTextColor(0);
+      y += 1;
+    });
+    y += 2;
+  });
+
+  return doc.output('blob');
+}
+
+// Breaks `text` into lines no wider than `width` in the current font
+function wrapText(ctx: CanvasRenderingContext2D, text: string, width: number) {
+  const lines: string[] = [];
+  let line = '';
+  text.split(' ').forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+}
+
+export async function reportToCard(report: AnalysisReport): Promise<Blob> {
+  const { result } = report;
+  const canvas = document.createElement('canvas');
+  canvas.width = CARD_SIZE;
+  canvas.height = CARD_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  const center = CARD_SIZE / 2;
+
+  ctx.fillStyle = '#f8fafc';
+  ctx.fillRect(0, 0, CARD_SIZE, CARD_SIZE);
+  ctx.fillStyle = '#3b82f6';
+  ctx.fillRect(0, 0, CARD_SIZE, 200);
+
+  // The face, cropped square with some room around it, in a circle
+  const photo = await loadImage(report.image);
+  const { box } = result;
+  const side = Math.max(box.width, box.height) * 1.5;
+  const cropX = box.xMin + box.width / 2 - side / 2;
+  const cropY = box.yMin + box.height / 2 - side / 2;
+  const radius = 200;
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(center, 260, radius, 0, Math.PI * 2);
+  ctx.clip();
+  ctx.fillStyle = '#e5e7eb';
+  ctx.fillRect(center - radius, 60, radius * 2, radius * 2);
+  ctx.drawImage(photo, cropX, cropY, side, side, center - radius, 60, radius * 2, radius * 2);
+  ctx.restore();
+  ctx.lineWidth = 8;
+  ctx.strokeStyle = '#ffffff';
+  ctx.beginPath();
+  ctx.arc(center, 260, radius, 0, Math.PI * 2);
+  ctx.stroke();
+
+  ctx.textAlign = 'center';
+  ctx.fillStyle = '#6b7280';
+  ctx.font = '28px sans-serif';
+  ctx.fillText('FACE SHAPE', center, 530);
+  ctx.fillStyle = '#111827';
+  ctx.font = 'bold 76px sans-serif';
+  ctx.fillText(result.faceShape, center, 610);
+  const [best, runnerUp] = result.faceShapeDetails.top;
+  ctx.fillStyle = '#6b7280';
+  ctx.font = '28px sans-serif';
+  ctx.fillText(`${percent(best.probability)} · leaning ${runnerUp.shape}`, center, 655);
+
+  const { rgb } = result.skinToneDetails;
+  ctx.font = 'bold 40px sans-serif';
+  const toneWidth = ctx.measureText(result.skinTone).width;
+  ctx.fillStyle = `rgb(${rgb.r}, ${rgb.g}, ${rgb.b})`;
+  ctx.beginPath();
+  ctx.arc(center - toneWidth / 2 - 36, 728, 22, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = '#111827';
+  ctx.fillText(result.skinTone, center + 10, 742);
+
+  // The top pick of the first few categories
+  ctx.font = '30px sans-serif';
+  ctx.fillStyle = '#374151';
+  let y = 820;
+  groupByCategory(result.recommendations).slice(0, 3).forEach(group => {
+    wrapText(ctx, `${CATEGORY_LABELS[group.category]}: ${group.items[0].text}`, CARD_SIZE - 160)
+      .slice(0, 2)
+      .forEach(line => {
+        ctx.fillText(line, center, y);
+        y += 38;
+      });
+    y += 12;
+  });
+
+  ctx.fillStyle = '#9ca3af';
+  ctx.font = '22px sans-serif';
+  ctx.fillText(`Selfie Analysis · ${new Date(report.createdAt).toLocaleDateString()}`, center, CARD_SIZE - 30);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the card')), 'image/png');
+  });
+}
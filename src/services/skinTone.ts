@@ -0,0 +1,262 @@
+import { FaceAnchors, distance, midpoint } from './geometry';
+import { FaceAnalysisError } from './errors';
+import type { PixelData } from './pixels';
+import { DEFAULT_THRESHOLDS, SkinToneThresholds } from './thresholds';
+
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface Lab {
+  L: number;
+  a: number;
+  b: number;
+}
+
+export type SkinRegionName = 'forehead' | 'leftCheek' | 'rightCheek';
+
+export interface SkinRegion {
+  name: SkinRegionName;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SkinSample extends SkinRegion {
+  pixelCount: number;
+  keptPixels: number;
+  rgb: RGB;
+  lab: Lab;
+}
+
+export type Undertone = 'Warm' | 'Neutral' | 'Cool';
+
+export const UNDERTONES: Undertone[] = ['Warm', 'Neutral', 'Cool'];
+
+export type FitzpatrickType = 'I' | 'II' | 'III' | 'IV' | 'V' | 'VI';
+
+export const FITZPATRICK_TYPES: FitzpatrickType[] = ['I', 'II', 'III', 'IV', 'V', 'VI'];
+
+// ITA° skin classes, see ITA_SCALE
+export type SkinCategory = 'Very Light' | 'Light' | 'Intermediate' | 'Tan' | 'Brown' | 'Dark';
+
+// What the app shows as the skin tone, e.g. "Warm Light"
+export type SkinToneLabel = `${Undertone} ${SkinCategory}`;
+
+export interface SkinToneDetails {
+  // Individual Typology Angle in degrees, see ITA_SCALE
+  ita: number;
+  category: SkinCategory;
+  fitzpatrick: FitzpatrickType;
+  undertone: Undertone;
+  // CIELAB hue angle (atan2(b*, a*)) the undertone was read from
+  hueAngle: number;
+  rgb: RGB;
+  lab: Lab;
+  regions: SkinSample[];
+  // The same reading from the photo before white balance correction, kept
+  // for debugging. Missing when the uncorrected colors didn't pass as skin.
+  uncorrected?: Omit<SkinToneDetails, 'regions' | 'uncorrected'>;
+}
+
+// ITA° skin classes from Chardon et al. (1991) / Del Bino et al. (2006),
+// with the Fitzpatrick phototype each class is commonly mapped to.
+// Ordered from lightest to darkest. The lower bound of each class comes from
+// `itaBoundaries` (published values 55, 41, 28, 10, -30); the first class
+// whose bound the measured ITA° reaches wins.
+export const ITA_SCALE: { category: SkinCategory; fitzpatrick: FitzpatrickType }[] = [
+  { category: 'Very Light', fitzpatrick: 'I' },
+  { category: 'Light', fitzpatrick: 'II' },
+  { category: 'Intermediate', fitzpatrick: 'III' },
+  { category: 'Tan', fitzpatrick: 'IV' },
+  { category: 'Brown', fitzpatrick: 'V' },
+  { category: 'Dark', fitzpatrick: 'VI' }
+];
+
+export const SKIN_CATEGORIES: SkinCategory[] = ITA_SCALE.map(({ category }) => category);
+
+// Fraction of a region's pixels that must survive outlier rejection for
+// the region to count toward the tone.
+const MIN_KEPT_FRACTION = 0.2;
+
+export function rgbToLab({ r, g, b }: RGB): Lab {
+  const linear = (channel: number) => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  const lr = linear(r);
+  const lg = linear(g);
+  const lb = linear(b);
+
+  // sRGB -> XYZ, normalized to the D65 white point
+  const x = (0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047;
+  const y = 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+  const z = (0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883;
+
+  const f = (t: number) => t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116;
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+
+  return {
+    L: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz)
+  };
+}
+
+export function skinSampleRegions(anchors: FaceAnchors): SkinRegion[] {
+  const { box, leftEye, rightEye, noseTip } = anchors;
+
+  if (!leftEye || !rightEye) {
+    // Without eyes we can only place regions by the usual face proportions
+    const size = box.width * 0.15;
+    return [
+      { name: 'forehead', x: box.xMin + box.width * 0.35, y: box.yMin + box.height * 0.12, width: box.width * 0.3, height: size },
+      { name: 'leftCheek', x: box.xMin + box.width * 0.2, y: box.yMin + box.height * 0.55, width: size, height: size },
+      { name: 'rightCheek', x: box.xMin + box.width * 0.8 - size, y: box.yMin + box.height * 0.55, width: size, height: size }
+    ];
+  }
+
+  const eyeDistance = distance(leftEye, rightEye);
+  const eyeCenter = midpoint(leftEye, rightEye);
+  const cheekSize = eyeDistance * 0.3;
+  // Cheek apples sit below the eyes, level with the tip of the nose
+  const cheekY = noseTip ? noseTip[1] : eyeCenter[1] + eyeDistance * 0.6;
+
+  const cheek = (name: SkinRegionName, eye: [number, number]): SkinRegion => {
+    const outward = Math.sign(eye[0] - eyeCenter[0]) * eyeDistance * 0.1;
+    return {
+      name,
+      x: eye[0] + outward - cheekSize / 2,
+      y: cheekY - cheekSize / 2,
+      width: cheekSize,
+      height: cheekSize
+    };
+  };
+
+  return [
+    {
+      name: 'forehead',
+      x: eyeCenter[0] - eyeDistance * 0.3,
+      y: eyeCenter[1] - eyeDistance * 0.7,
+      width: eyeDistance * 0.6,
+      height: eyeDistance * 0.25
+    },
+    cheek('leftCheek', leftEye),
+    cheek('rightCheek', rightEye)
+  ];
+}
+
+export function sampleSkinRegion(pixels: PixelData, region: SkinRegion): SkinSample {
+  const x0 = Math.max(0, Math.floor(region.x));
+  const y0 = Math.max(0, Math.floor(region.y));
+  const x1 = Math.min(pixels.width, Math.ceil(region.x + region.width));
+  const y1 = Math.min(pixels.height, Math.ceil(region.y + region.height));
+
+  const candidates: { rgb: RGB; lab: Lab }[] = [];
+  let pixelCount = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = (y * pixels.width + x) * 4;
+      const rgb = { r: pixels.data[i], g: pixels.data[i + 1], b: pixels.data[i + 2] };
+      const lab = rgbToLab(rgb);
+      pixelCount++;
+
+      // Drop specular highlights, deep shadows (pupils, nostrils) and
+      // anything outside the red-yellow hues skin falls in (eye whites,
+      // background, clothing)
+      const chroma = Math.hypot(lab.a, lab.b);
+      const hue = Math.atan2(lab.b, lab.a) * 180 / Math.PI;
+      if (lab.L < 15 || lab.L > 95 || chroma < 5 || hue < 0 || hue > 90) continue;
+
+      candidates.push({ rgb, lab });
+    }
+  }
+
+  // Reject lightness outliers (hair strands, eyebrows, shine) with a
+  // median absolute deviation test
+  const lightness = candidates.map(c => c.lab.L).sort((a, b) => a - b);
+  const median = lightness[Math.floor(lightness.length / 2)] ?? 0;
+  const deviations = lightness.map(l => Math.abs(l - median)).sort((a, b) => a - b);
+  const mad = deviations[Math.floor(deviations.length / 2)] ?? 0;
+  const tolerance = Math.max(5, 2.5 * 1.4826 * mad);
+  const kept = candidates.filter(c => Math.abs(c.lab.L - median) <= tolerance);
+
+  const mean = <T extends string>(values: Record<T, number>[], keys: T[]) =>
+    Object.fromEntries(keys.map(key => [
+      key,
+      values.length ? values.reduce((sum, v) => sum + v[key], 0) / values.length : 0
+    ])) as Record<T, number>;
+
+  return {
+    ...region,
+    pixelCount,
+    keptPixels: kept.length,
+    rgb: mean(kept.map(c => c.rgb), ['r', 'g', 'b']),
+    lab: mean(kept.map(c => c.lab), ['L', 'a', 'b'])
+  };
+}
+
+// Skin hue angles cluster around 40°–70°: yellower (above warmHueMin)
+// reads warm, pinker (below coolHueMax) reads cool.
+export function classifySkinTone(
+  lab: Lab,
+  thresholds: SkinToneThresholds = DEFAULT_THRESHOLDS.skinTone
+): Omit<SkinToneDetails, 'rgb' | 'regions'> {
+  const ita = Math.atan2(lab.L - 50, lab.b) * 180 / Math.PI;
+  const hueAngle = Math.atan2(lab.b, lab.a) * 180 / Math.PI;
+  const boundary = thresholds.itaBoundaries.findIndex(minIta => ita >= minIta);
+  const { category, fitzpatrick } = ITA_SCALE[boundary === -1 ? ITA_SCALE.length - 1 : boundary];
+
+  let undertone: Undertone = 'Neutral';
+  if (hueAngle >= thresholds.warmHueMin) undertone = 'Warm';
+  else if (hueAngle <= thresholds.coolHueMax) undertone = 'Cool';
+
+  return { ita, category, fitzpatrick, undertone, hueAngle, lab };
+}
+
+export function sampleSkin(pixels: PixelData, anchors: FaceAnchors): SkinSample[] {
+  return skinSampleRegions(anchors).map(region => sampleSkinRegion(pixels, region));
+}
+
+export function skinToneFromSamples(
+  regions: SkinSample[],
+  thresholds: SkinToneThresholds = DEFAULT_THRESHOLDS.skinTone
+): SkinToneDetails {
+  const usable = regions.filter(region =>
+    region.pixelCount > 0 && region.keptPixels / region.pixelCount >= MIN_KEPT_FRACTION
+  );
+
+  if (usable.length === 0) {
+    throw new FaceAnalysisError('NO_SKIN_VISIBLE', 'Could not find enough visible skin to read your skin tone. Please try again in even lighting.');
+  }
+
+  // Weight each region by how many skin pixels it contributed
+  const total = usable.reduce((sum, region) => sum + region.keptPixels, 0);
+  const weighted = <T extends string>(pick: (region: SkinSample) => Record<T, number>, keys: T[]) =>
+    Object.fromEntries(keys.map(key => [
+      key,
+      usable.reduce((sum, region) => sum + pick(region)[key] * region.keptPixels, 0) / total
+    ])) as Record<T, number>;
+
+  const rgb = weighted(region => region.rgb, ['r', 'g', 'b']);
+  const lab = weighted(region => region.lab, ['L', 'a', 'b']);
+
+  return {
+    ...classifySkinTone(lab, thresholds),
+    rgb: {
+      r: Math.round(rgb.r),
+      g: Math.round(rgb.g),
+      b: Math.round(rgb.b)
+    },
+    regions
+  };
+}
+
+export function skinToneLabel(details: Pick<SkinToneDetails, 'undertone' | 'category'>): SkinToneLabel {
+  return `${details.undertone} ${details.category}`;
+}
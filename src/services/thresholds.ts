@@ -0,0 +1,69 @@
+import defaultThresholds from '@/data/classifierThresholds.json';
+import { FACE_SHAPES, FaceShape, MEASUREMENT_RATIOS, MeasurementRatio } from './proportions';
+
+// Settings for the face shape and skin tone classifiers. The bundled
+// values live in src/data/classifierThresholds.json and can be regenerated
+// from a labeled dataset with `npm run evaluate -- --calibrate`.
+export interface FaceShapeThresholds {
+  // The typical ratios of each shape; a face scores highest for the
+  // prototype it is nearest to. Shapes without a prototype are never
+  // chosen.
+  prototypes: Partial<Record<FaceShape, Record<MeasurementRatio, number>>>;
+  // How far each ratio typically strays from its prototype. Larger spreads
+  // make that ratio count for less.
+  spread: Record<MeasurementRatio, number>;
+}
+
+export interface SkinToneThresholds {
+  // Lower ITA° bounds of the first five classes in ITA_SCALE, lightest first
+  itaBoundaries: [number, number, number, number, number];
+  warmHueMin: number;
+  coolHueMax: number;
+}
+
+export interface ClassifierThresholds {
+  version: number;
+  faceShape: FaceShapeThresholds;
+  skinTone: SkinToneThresholds;
+}
+
+export function parseThresholds(json: unknown): ClassifierThresholds {
+  const thresholds = json as ClassifierThresholds;
+  if (!thresholds || typeof thresholds.version !== 'number' || !thresholds.faceShape || !thresholds.skinTone) {
+    throw new Error('Classifier thresholds need "version", "faceShape" and "skinTone"');
+  }
+
+  const { prototypes, spread } = thresholds.faceShape;
+  if (!prototypes || Object.keys(prototypes).length < 2) {
+    throw new Error('Classifier thresholds faceShape.prototypes must list at least two shapes');
+  }
+  const unknownShape = Object.keys(prototypes).find(shape => !FACE_SHAPES.includes(shape as FaceShape));
+  if (unknownShape) {
+    throw new Error(`Classifier thresholds faceShape.prototypes has unknown shape "${unknownShape}"`);
+  }
+  MEASUREMENT_RATIOS.forEach(ratio => {
+    if (typeof spread?.[ratio] !== 'number' || spread[ratio] <= 0) {
+      throw new Error(`Classifier threshold faceShape.spread.${ratio} must be a positive number`);
+    }
+    Object.entries(prototypes).forEach(([shape, prototype]) => {
+      if (typeof prototype?.[ratio] !== 'number') {
+        throw new Error(`Classifier threshold faceShape.prototypes.${shape}.${ratio} must be a number`);
+      }
+    });
+  });
+
+  const { itaBoundaries, warmHueMin, coolHueMax } = thresholds.skinTone;
+  const descending = Array.isArray(itaBoundaries) &&
+    itaBoundaries.length === 5 &&
+    itaBoundaries.every((value, i) => typeof value === 'number' && (i === 0 || value < itaBoundaries[i - 1]));
+  if (!descending) {
+    throw new Error('Classifier threshold skinTone.itaBoundaries must be five numbers, highest first');
+  }
+  if (typeof warmHueMin !== 'number' || typeof coolHueMax !== 'number' || coolHueMax > warmHueMin) {
+    throw new Error('Classifier thresholds skinTone.warmHueMin and coolHueMax must be numbers with coolHueMax <= warmHueMin');
+  }
+
+  return thresholds;
+}
+
+export const DEFAULT_THRESHOLDS = parseThresholds(defaultThresholds);
@@ -0,0 +1,197 @@
+import defaultAssets from '@/data/tryOnAssets.json';
+import { FaceAnchors, Point, byX, distance, midpoint } from './geometry';
+import { loadImage } from './images';
+import { FACE_SHAPES, FaceShape } from './proportions';
+
+// Virtual try-on: transparent overlays (frames, earrings, fringes) placed
+// on a face from its eye, nose and ear keypoints.
+//
+// Assets are positioned in a frame that follows the face: x runs along the
+// eye line in units of the distance between the eyes, y runs perpendicular
+// to it (down the face) in units of the eye line to nose tip distance.
+
+export type TryOnKind = 'eyewear' | 'earrings' | 'bangs';
+
+export const TRY_ON_KINDS: TryOnKind[] = ['eyewear', 'earrings', 'bangs'];
+
+export const TRY_ON_KIND_LABELS: Record<TryOnKind, string> = {
+  eyewear: 'Frames',
+  earrings: 'Earrings',
+  bangs: 'Bangs'
+};
+
+export interface TryOnAsset {
+  id: string;
+  name: string;
+  kind: TryOnKind;
+  // URL of a transparent PNG or SVG
+  src: string;
+  // Face shapes the style is recommended for
+  suits: FaceShape[];
+  // Drawn width, in eye distances
+  width: number;
+  // Where the origin lands relative to the anchor point. Earrings hang from
+  // each ear and x points away from the face; everything else is placed
+  // from the middle of the eyes.
+  offset: { x: number; y: number };
+  // Point of the asset that is placed, as a fraction of its size. Defaults
+  // to the middle.
+  origin?: { x: number; y: number };
+}
+
+export interface TryOnCatalog {
+  version: number;
+  assets: TryOnAsset[];
+}
+
+export interface TryOnPlacement {
+  // Where the asset's origin lands, in image pixels
+  position: Point;
+  origin: { x: number; y: number };
+  width: number;
+  height: number;
+  // Radians, following the eye line
+  rotation: number;
+  // Flipped horizontally, for the copy on the image's left side
+  mirrored: boolean;
+}
+
+// Used when a face has no nose tip, relative to the eye distance
+const DEFAULT_NOSE_DROP = 0.6;
+// Where ears are assumed to be when the keypoints don't include them
+// (the face mesh doesn't), in the face frame described above
+const ESTIMATED_EAR = { x: 1.1, y: 0.5 };
+
+const CENTER = { x: 0.5, y: 0.5 };
+
+// Validates a catalog loaded from JSON, naming the asset at fault
+export function parseTryOnCatalog(json: unknown): TryOnCatalog {
+  const catalog = json as TryOnCatalog;
+  if (!catalog || typeof catalog.version !== 'number' || !Array.isArray(catalog.assets)) {
+    throw new Error('Try-on assets must have a numeric "version" and an "assets" array');
+  }
+
+  const ids = new Set<string>();
+  const isPair = (value: unknown) => {
+    const pair = value as { x: unknown; y: unknown } | undefined;
+    return !!pair && typeof pair.x === 'number' && typeof pair.y === 'number';
+  };
+  catalog.assets.forEach((asset, index) => {
+    const fail = (problem: string) => {
+      throw new Error(`Try-on asset ${asset?.id ?? `#${index}`} ${problem}`);
+    };
+
+    if (typeof asset.id !== 'string' || asset.id === '') fail('is missing an "id"');
+    if (ids.has(asset.id)) fail('is defined more than once');
+    ids.add(asset.id);
+    if (!TRY_ON_KINDS.includes(asset.kind)) fail(`has unknown kind "${asset.kind}"`);
+    if (typeof asset.name !== 'string' || typeof asset.src !== 'string') fail('needs both "name" and "src"');
+    if (!Array.isArray(asset.suits) || asset.suits.some(shape => !FACE_SHAPES.includes(shape))) {
+      fail('has a "suits" entry that is not a list of face shapes');
+    }
+    if (typeof asset.width !== 'number' || asset.width <= 0) fail('needs a positive "width"');
+    if (!isPair(asset.offset)) fail('needs an "offset" with numeric x and y');
+    if (asset.origin !== undefined && !isPair(asset.origin)) fail('has an "origin" without numeric x and y');
+  });
+
+  return catalog;
+}
+
+export const DEFAULT_TRY_ON_CATALOG = parseTryOnCatalog(defaultAssets);
+
+export function suitsFaceShape(asset: TryOnAsset, faceShape: FaceShape | null | undefined) {
+  return !!faceShape && asset.suits.includes(faceShape);
+}
+
+// Assets of one kind, the ones suiting `faceShape` first
+export function tryOnAssetsFor(
+  kind: TryOnKind,
+  faceShape: FaceShape | null | undefined,
+  catalog: TryOnCatalog = DEFAULT_TRY_ON_CATALOG
+) {
+  return catalog.assets
+    .filter(asset => asset.kind === kind)
+    // Stable sort keeps catalog order otherwise
+    .sort((a, b) => Number(suitsFaceShape(b, faceShape)) - Number(suitsFaceShape(a, faceShape)));
+}
+
+// Where to draw `asset` on a face: one placement, or one per ear for
+// earrings. Empty when the eyes weren't found. `aspectRatio` is the asset
+// image's width over its height.
+export function placeTryOnAsset(asset: TryOnAsset, anchors: FaceAnchors, aspectRatio: number): TryOnPlacement[] {
+  if (!anchors.leftEye || !anchors.rightEye) return [];
+
+  const [eyeA, eyeB] = byX(anchors.leftEye, anchors.rightEye);
+  const eyeDistance = distance(eyeA, eyeB);
+  if (eyeDistance === 0) return [];
+
+  const eyeCenter = midpoint(eyeA, eyeB);
+  const across: Point = [(eyeB[0] - eyeA[0]) / eyeDistance, (eyeB[1] - eyeA[1]) / eyeDistance];
+  const down: Point = [-across[1], across[0]];
+  const noseDrop = anchors.noseTip
+    ? Math.max(
+      (anchors.noseTip[0] - eyeCenter[0]) * down[0] + (anchors.noseTip[1] - eyeCenter[1]) * down[1],
+      eyeDistance * DEFAULT_NOSE_DROP / 2
+    )
+    : eyeDistance * DEFAULT_NOSE_DROP;
+  const toImage = (from: Point, x: number, y: number): Point => [
+    from[0] + across[0] * x * eyeDistance + down[0] * y * noseDrop,
+    from[1] + across[1] * x * eyeDistance + down[1] * y * noseDrop
+  ];
+
+  const width = asset.width * eyeDistance;
+  const base = {
+    origin: asset.origin ?? CENTER,
+    width,
+    height: width / aspectRatio,
+    rotation: Math.atan2(across[1], across[0])
+  };
+
+  if (asset.kind !== 'earrings') {
+    return [{ ...base, position: toImage(eyeCenter, asset.offset.x, asset.offset.y), mirrored: false }];
+  }
+
+  const [earA, earB] = anchors.leftEar && anchors.rightEar
+    ? byX(anchors.leftEar, anchors.rightEar)
+    : [toImage(eyeCenter, -ESTIMATED_EAR.x, ESTIMATED_EAR.y), toImage(eyeCenter, ESTIMATED_EAR.x, ESTIMATED_EAR.y)];
+  return [
+    { ...base, position: toImage(earA, -asset.offset.x, asset.offset.y), mirrored: true },
+    { ...base, position: toImage(earB, asset.offset.x, asset.offset.y), mirrored: false }
+  ];
+}
+
+export function drawTryOnAsset(
+  ctx: CanvasRenderingContext2D,
+  asset: TryOnAsset,
+  image: HTMLImageElement,
+  anchors: FaceAnchors
+) {
+  placeTryOnAsset(asset, anchors, image.naturalWidth / image.naturalHeight).forEach(placement => {
+    ctx.save();
+    ctx.translate(placement.position[0], placement.position[1]);
+    ctx.rotate(placement.rotation);
+    if (placement.mirrored) ctx.scale(-1, 1);
+    ctx.drawImage(
+      image,
+      -placement.width * placement.origin.x,
+      -placement.height * placement.origin.y,
+      placement.width,
+      placement.height
+    );
+    ctx.restore();
+  });
+}
+
+const images = new Map<string, Promise<HTMLImageElement>>();
+
+// Loads an asset's image once and shares it between every view
+export function loadTryOnImage(asset: TryOnAsset) {
+  let image = images.get(asset.src);
+  if (!image) {
+    image = loadImage(asset.src);
+    images.set(asset.src, image);
+    // Let a later call try again rather than caching the failure
+    image.catch(() => images.delete(asset.src));
+  }
+  return image;
+}
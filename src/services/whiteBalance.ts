@@ -0,0 +1,370 @@
+import type { FaceBox } from './geometry';
+import type { PixelData } from './pixels';
+import { Lab, RGB, SkinSample, rgbToLab } from './skinTone';
+
+// Color constancy: estimates the color of the light a photo was taken in
+// and corrects the photo as if it had been neutral daylight, so warm bulbs
+// don't make every skin tone read warm and shade doesn't make it read cool.
+// The correction is a per-channel gain in linear light (von Kries).
+
+// How the light was estimated:
+// - referenceCard: from a white or gray card held up in the photo
+// - grayWorld: the background averages to gray
+// - whitePatch: the brightest background pixels are white
+// - combined: halfway (geometrically) between gray world and white patch
+// - none: too little background to tell, so nothing was corrected
+export type WhiteBalanceMethod = 'referenceCard' | 'grayWorld' | 'whitePatch' | 'combined' | 'none';
+
+export const WHITE_BALANCE_METHODS: WhiteBalanceMethod[] = ['referenceCard', 'grayWorld', 'whitePatch', 'combined', 'none'];
+
+// What to estimate from. 'auto' uses a reference card when one is found
+// and the combined estimate otherwise.
+export type WhiteBalanceMode = 'auto' | 'grayWorld' | 'whitePatch' | 'off';
+
+// The hue the light tints the photo with
+export type ColorCast = 'Neutral' | 'Warm' | 'Cool' | 'Green' | 'Magenta';
+
+export const COLOR_CASTS: ColorCast[] = ['Neutral', 'Warm', 'Cool', 'Green', 'Magenta'];
+
+export interface WhiteBalance {
+  method: WhiteBalanceMethod;
+  // The estimated light color as 8-bit sRGB, at mid brightness
+  illuminant: RGB;
+  // Multipliers applied to each linear-light channel to neutralize it
+  gains: RGB;
+  cast: ColorCast;
+  // CIELAB chroma of the illuminant: 0 for neutral light, around 50 for a
+  // household incandescent bulb
+  castStrength: number;
+  // The reference card, in image pixels
+  card?: FaceBox;
+}
+
+export interface LightingReport extends WhiteBalance {
+  // 0-100, from the color cast, how evenly the face is lit and how well
+  // exposed the skin is
+  score: number;
+  message: string;
+}
+
+// Skip pixels this close to black or white: clipped channels no longer
+// carry the light's color
+const DARK_LIMIT = 10;
+const BRIGHT_LIMIT = 250;
+// The white patch is the mean of this share of the brightest pixels
+const WHITE_PATCH_SHARE = 0.02;
+// Too little background to trust an estimate from, as a share of the
+// sampled pixels
+const MIN_BACKGROUND_SHARE = 0.05;
+// Corrections beyond this factor on any channel are more likely a colorful
+// scene than colored light
+const GAIN_RANGE = [0.4, 2.5] as const;
+// Below this illuminant chroma the light counts as neutral
+const NEUTRAL_CAST = 6;
+
+// Reference card search: the frame is split into cells of CARD_CELL
+// samples a side. A card is a rectangle of uniform, bright cells that turn
+// near-gray under the scene estimate, away from the face, and smaller than
+// a wall.
+const CARD_CELL = 6;
+const CARD_MAX_SPREAD = 6;
+const CARD_MIN_LIGHTNESS = 45;
+const CARD_MAX_CHROMA = 8;
+const CARD_CELL_TOLERANCE = 4;
+const CARD_MIN_CELLS = 4;
+const CARD_AREA_RANGE = [0.01, 0.25] as const;
+const CARD_MIN_FILL = 0.7;
+
+const toLinear = (value: number) => {
+  const c = value / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+const toSrgb = (linear: number) => {
+  const c = Math.min(1, Math.max(0, linear));
+  return 255 * (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+};
+
+const LINEAR = Array.from({ length: 256 }, (_, value) => toLinear(value));
+
+const NO_CORRECTION: RGB = { r: 1, g: 1, b: 1 };
+
+const insideAny = (x: number, y: number, boxes: FaceBox[]) =>
+  boxes.some(box => x >= box.xMin && x < box.xMin + box.width && y >= box.yMin && y < box.yMin + box.height);
+
+// The light's color at mid brightness, so its chroma is comparable across
+// photos
+function illuminantColor(light: RGB): { rgb: RGB; lab: Lab } {
+  const luminance = 0.2126 * light.r + 0.7152 * light.g + 0.0722 * light.b;
+  const scale = luminance > 0 ? 0.2 / luminance : 0;
+  const rgb = {
+    r: Math.round(toSrgb(light.r * scale)),
+    g: Math.round(toSrgb(light.g * scale)),
+    b: Math.round(toSrgb(light.b * scale))
+  };
+  return { rgb, lab: rgbToLab(rgb) };
+}
+
+function castOf(lab: Lab): ColorCast {
+  if (Math.hypot(lab.a, lab.b) < NEUTRAL_CAST) return 'Neutral';
+  const hue = (Math.atan2(lab.b, lab.a) * 180 / Math.PI + 360) % 360;
+  if (hue >= 20 && hue < 110) return 'Warm';
+  if (hue >= 110 && hue < 200) return 'Green';
+  if (hue >= 200 && hue < 290) return 'Cool';
+  return 'Magenta';
+}
+
+// Gains that turn `light` gray without changing overall brightness
+function gainsFor(light: RGB): RGB {
+  const mean = (light.r + light.g + light.b) / 3;
+  const gain = (channel: number) =>
+    channel > 0 ? Math.min(GAIN_RANGE[1], Math.max(GAIN_RANGE[0], mean / channel)) : 1;
+  return { r: gain(light.r), g: gain(light.g), b: gain(light.b) };
+}
+
+interface Sample {
+  x: number;
+  y: number;
+  r: number;
+  g: number;
+  b: number;
+}
+
+// Linear-light samples on a grid of at most ~200 columns, outside the
+// faces. Skin would pull every estimate towards orange.
+function backgroundSamples(pixels: PixelData, faces: FaceBox[]) {
+  const step = Math.max(1, Math.floor(pixels.width / 200));
+  const columns = Math.ceil(pixels.width / step);
+  const rows = Math.ceil(pixels.height / step);
+  // Null where the sample was skipped, for the card search
+  const grid: (Sample | null)[] = new Array(columns * rows).fill(null);
+  const samples: Sample[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const x = column * step;
+      const y = row * step;
+      if (insideAny(x, y, faces)) continue;
+      const i = (y * pixels.width + x) * 4;
+      const [r, g, b] = [pixels.data[i], pixels.data[i + 1], pixels.data[i + 2]];
+      if (Math.max(r, g, b) >= BRIGHT_LIMIT || Math.max(r, g, b) <= DARK_LIMIT) continue;
+      const sample = { x, y, r: LINEAR[r], g: LINEAR[g], b: LINEAR[b] };
+      grid[row * columns + column] = sample;
+      samples.push(sample);
+    }
+  }
+  return { samples, grid, columns, rows, step, total: columns * rows };
+}
+
+function grayWorld(samples: Sample[]): RGB {
+  const sum = samples.reduce((total, s) => ({ r: total.r + s.r, g: total.g + s.g, b: total.b + s.b }), { r: 0, g: 0, b: 0 });
+  return { r: sum.r / samples.length, g: sum.g / samples.length, b: sum.b / samples.length };
+}
+
+function whitePatch(samples: Sample[]): RGB {
+  const brightest = samples
+    .slice()
+    .sort((a, b) => (b.r + b.g + b.b) - (a.r + a.g + a.b))
+    .slice(0, Math.max(1, Math.round(samples.length * WHITE_PATCH_SHARE)));
+  return grayWorld(brightest);
+}
+
+// Looks for a white or gray card: the largest compact patch of uniform,
+// bright cells that come out near-gray under `gains`
+function findReferenceCard(
+  { grid, columns, rows, step }: ReturnType<typeof backgroundSamples>,
+  gains: RGB
+): { light: RGB; box: FaceBox } | null {
+  const cellColumns = Math.floor(columns / CARD_CELL);
+  const cellRows = Math.floor(rows / CARD_CELL);
+  if (cellColumns === 0 || cellRows === 0) return null;
+
+  // Mean color of each cell that qualifies as part of a card
+  const cells: (RGB | null)[] = new Array(cellColumns * cellRows).fill(null);
+  for (let cellRow = 0; cellRow < cellRows; cellRow++) {
+    for (let cellColumn = 0; cellColumn < cellColumns; cellColumn++) {
+      const members: Sample[] = [];
+      for (let row = cellRow * CARD_CELL; row < (cellRow + 1) * CARD_CELL; row++) {
+        for (let column = cellColumn * CARD_CELL; column < (cellColumn + 1) * CARD_CELL; column++) {
+          const sample = grid[row * columns + column];
+          if (sample) members.push(sample);
+        }
+      }
+      // Cells touching a face or clipped pixels don't qualify
+      if (members.length < CARD_CELL * CARD_CELL) continue;
+
+      const lightness = members.map(s => rgbToLab({ r: toSrgb(s.r), g: toSrgb(s.g), b: toSrgb(s.b) }).L);
+      const meanLightness = lightness.reduce((sum, l) => sum + l, 0) / lightness.length;
+      const spread = Math.sqrt(lightness.reduce((sum, l) => sum + Math.pow(l - meanLightness, 2), 0) / lightness.length);
+      const mean = grayWorld(members);
+      const corrected = rgbToLab({
+        r: toSrgb(mean.r * gains.r),
+        g: toSrgb(mean.g * gains.g),
+        b: toSrgb(mean.b * gains.b)
+      });
+      if (spread > CARD_MAX_SPREAD || meanLightness < CARD_MIN_LIGHTNESS) continue;
+      if (Math.hypot(corrected.a, corrected.b) > CARD_MAX_CHROMA) continue;
+      cells[cellRow * cellColumns + cellColumn] = mean;
+    }
+  }
+
+  // Group neighboring cells of the same color
+  const labOf = (color: RGB) => rgbToLab({ r: toSrgb(color.r), g: toSrgb(color.g), b: toSrgb(color.b) });
+  const seen = new Uint8Array(cells.length);
+  let best: { light: RGB; box: FaceBox; size: number } | null = null;
+  for (let start = 0; start < cells.length; start++) {
+    if (!cells[start] || seen[start]) continue;
+    const members = [start];
+    seen[start] = 1;
+    for (let next = 0; next < members.length; next++) {
+      const index = members[next];
+      const here = labOf(cells[index]!);
+      const column = index % cellColumns;
+      const neighbors = [
+        column > 0 ? index - 1 : -1,
+        column < cellColumns - 1 ? index + 1 : -1,
+        index - cellColumns,
+        index + cellColumns
+      ];
+      for (const neighbor of neighbors) {
+        if (neighbor < 0 || neighbor >= cells.length || seen[neighbor] || !cells[neighbor]) continue;
+        const there = labOf(cells[neighbor]!);
+        if (Math.hypot(here.L - there.L, here.a - there.a, here.b - there.b) > CARD_CELL_TOLERANCE) continue;
+        seen[neighbor] = 1;
+        members.push(neighbor);
+      }
+    }
+
+    const memberColumns = members.map(index => index % cellColumns);
+    const memberRows = members.map(index => Math.floor(index / cellColumns));
+    const width = Math.max(...memberColumns) - Math.min(...memberColumns) + 1;
+    const height = Math.max(...memberRows) - Math.min(...memberRows) + 1;
+    const area = members.length / cells.length;
+    const compact = members.length / (width * height) >= CARD_MIN_FILL;
+    if (
+      members.length < CARD_MIN_CELLS ||
+      area < CARD_AREA_RANGE[0] || area > CARD_AREA_RANGE[1] ||
+      !compact ||
+      (best && best.size >= members.length)
+    ) continue;
+
+    const cellSize = CARD_CELL * step;
+    best = {
+      light: grayWorld(members.map(index => ({ x: 0, y: 0, ...cells[index]! }))),
+      box: {
+        xMin: Math.min(...memberColumns) * cellSize,
+        yMin: Math.min(...memberRows) * cellSize,
+        width: width * cellSize,
+        height: height * cellSize
+      },
+      size: members.length
+    };
+  }
+  return best && { light: best.light, box: best.box };
+}
+
+// Estimates the light a photo was taken in from everything outside `faces`
+export function estimateWhiteBalance(
+  pixels: PixelData,
+  faces: FaceBox[],
+  mode: WhiteBalanceMode = 'auto'
+): WhiteBalance {
+  const background = backgroundSamples(pixels, faces);
+  const usable = background.samples.length >= background.total * MIN_BACKGROUND_SHARE;
+
+  const balance = (method: WhiteBalanceMethod, light: RGB, card?: FaceBox): WhiteBalance => {
+    const { rgb, lab } = illuminantColor(light);
+    return {
+      method,
+      illuminant: rgb,
+      gains: method === 'none' ? NO_CORRECTION : gainsFor(light),
+      cast: castOf(lab),
+      castStrength: Math.hypot(lab.a, lab.b),
+      card
+    };
+  };
+
+  if (mode === 'off' || !usable) {
+    return balance('none', usable ? grayWorld(background.samples) : NO_CORRECTION);
+  }
+  if (mode === 'grayWorld') return balance('grayWorld', grayWorld(background.samples));
+  if (mode === 'whitePatch') return balance('whitePatch', whitePatch(background.samples));
+
+  const world = grayWorld(background.samples);
+  const patch = whitePatch(background.samples);
+  // Scale both to the same brightness before meeting in the middle
+  const sum = (light: RGB) => light.r + light.g + light.b;
+  const combined = {
+    r: Math.sqrt((world.r / sum(world)) * (patch.r / sum(patch))),
+    g: Math.sqrt((world.g / sum(world)) * (patch.g / sum(patch))),
+    b: Math.sqrt((world.b / sum(world)) * (patch.b / sum(patch)))
+  };
+
+  const card = findReferenceCard(background, gainsFor(combined));
+  return card ? balance('referenceCard', card.light, card.box) : balance('combined', combined);
+}
+
+// A copy of the pixels with the white balance applied. Returns the pixels
+// themselves when there is nothing to correct.
+export function applyWhiteBalance(pixels: PixelData, { gains }: WhiteBalance): PixelData {
+  if (gains.r === 1 && gains.g === 1 && gains.b === 1) return pixels;
+
+  const table = (gain: number) => Uint8Array.from(LINEAR, linear => Math.round(toSrgb(linear * gain)));
+  const [r, g, b] = [table(gains.r), table(gains.g), table(gains.b)];
+  const data = new Uint8ClampedArray(pixels.data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = r[pixels.data[i]];
+    data[i + 1] = g[pixels.data[i + 1]];
+    data[i + 2] = b[pixels.data[i + 2]];
+    data[i + 3] = pixels.data[i + 3];
+  }
+  return { data, width: pixels.width, height: pixels.height };
+}
+
+// Scores the lighting on a face from the white balance and the skin
+// samples taken before correction. Each problem costs up to the points
+// given: a color cast 40, one side of the face darker than the other 35,
+// skin too dark or too bright 25.
+export function assessLighting(balance: WhiteBalance, skinSamples: SkinSample[]): LightingReport {
+  const scale = (value: number, from: number, to: number) =>
+    Math.min(1, Math.max(0, (value - from) / (to - from)));
+
+  const lightness = (name: SkinSample['name']) => {
+    const sample = skinSamples.find(s => s.name === name);
+    return sample && sample.keptPixels > 0 ? sample.lab.L : null;
+  };
+  const left = lightness('leftCheek');
+  const right = lightness('rightCheek');
+  const imbalance = left !== null && right !== null ? Math.abs(left - right) : 0;
+
+  const kept = skinSamples.filter(s => s.keptPixels > 0);
+  const skinLightness = kept.length
+    ? kept.reduce((sum, s) => sum + s.lab.L, 0) / kept.length
+    : 50;
+  const exposure = Math.max(35 - skinLightness, skinLightness - 85, 0);
+
+  const castPenalty = 40 * scale(balance.castStrength, NEUTRAL_CAST, 45);
+  const unevenPenalty = 35 * scale(imbalance, 4, 20);
+  const exposurePenalty = 25 * scale(exposure, 0, 20);
+  const score = Math.round(100 - castPenalty - unevenPenalty - exposurePenalty);
+
+  const worst = Math.max(castPenalty, unevenPenalty, exposurePenalty);
+  let message = 'Even, neutral lighting';
+  if (worst >= 5) {
+    if (worst === castPenalty) {
+      message = balance.method === 'none'
+        ? `${balance.cast} color cast`
+        : `${balance.cast} color cast, corrected before reading your skin tone`;
+    } else if (worst === unevenPenalty) {
+      message = 'One side of your face is in shadow';
+    } else {
+      message = skinLightness < 35 ? 'Your face is underexposed' : 'Your face is overexposed';
+    }
+  }
+
+  return { ...balance, score: Math.max(0, score), message };
+}
+
+export function lightingLabel(lighting: Pick<LightingReport, 'score' | 'cast'>) {
+  const light = lighting.cast === 'Neutral' ? 'neutral light' : `${lighting.cast.toLowerCase()} cast`;
+  return `${lighting.score}/100, ${light}`;
+}
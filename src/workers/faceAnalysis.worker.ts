@@ -0,0 +1,55 @@
+import type { WorkerRequest, WorkerResponse } from '@/services/analysisClient';
+import { FaceAnalysisError } from '@/services/errors';
+import { FaceAnalysisService } from '@/services/faceAnalysis';
+import { readBitmap } from '@/services/pixels';
+
+// Runs the analysis off the main thread for FaceAnalysisClient. The DOM
+// typings don't describe a worker's global scope, hence the narrow cast.
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse) => void;
+};
+
+let service: FaceAnalysisService | null = null;
+// Requests run one at a time so frames never interleave with each other or
+// with model loading
+let queue: Promise<void> = Promise.resolve();
+
+async function handle(request: WorkerRequest): Promise<WorkerResponse> {
+  if (request.type === 'load') {
+    if (!service) {
+      const loading = new FaceAnalysisService(request.options);
+      await loading.initialize(progress => scope.postMessage({ type: 'progress', progress }));
+      service = loading;
+    }
+    return { id: request.id, type: 'loaded' };
+  }
+
+  if (request.type === 'resources') {
+    const urls = performance.getEntriesByType('resource').map(entry => entry.name);
+    return { id: request.id, type: 'resources', urls: [location.href, ...urls] };
+  }
+
+  if (!service) {
+    request.image.close();
+    throw new Error('Model not initialized');
+  }
+  const faces = await service.analyzeFaces(readBitmap(request.image), request.checks);
+  return { id: request.id, type: 'analyzed', faces };
+}
+
+scope.onmessage = event => {
+  const request = event.data;
+  queue = queue.then(async () => {
+    try {
+      scope.postMessage(await handle(request));
+    } catch (error) {
+      scope.postMessage({
+        id: request.id,
+        type: 'error',
+        message: (error as Error).message,
+        code: error instanceof FaceAnalysisError ? error.code : undefined
+      });
+    }
+  });
+};